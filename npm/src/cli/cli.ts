@@ -2,10 +2,11 @@
 
 import { join } from 'path';
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, type OptionValues } from 'commander';
 
 import { ParsemeConfig } from '../core/config.js';
 import { ParsemeGenerator } from '../core/generator.js';
+import { ParsemeWatcher } from '../core/watcher.js';
 import { prompt } from '../utils/prompt.js';
 
 import type { ParsemeConfigFile } from '../core/types.js';
@@ -16,61 +17,159 @@ async function promptForMissingConfig(config: ParsemeConfigFile): Promise<Parsem
   return { ...config };
 }
 
+async function loadConfig(options: OptionValues): Promise<ParsemeConfig> {
+  // Convert CLI options to config format
+  const cliOptions = {
+    ...(options.output && { outputPath: options.output }),
+    ...(options.root && { rootDir: options.root }),
+    ...(options.contextDir && { contextDir: options.contextDir }),
+    ...(options.fileTypes && { analyzeFileTypes: options.fileTypes }),
+    ...(options.exclude && { excludePatterns: options.exclude }),
+    ...(options.gitFiles === false && { useGitForFiles: false }),
+    ...(options.gitInfo === false && { includeGitInfo: false }),
+    ...(options.cache === false && { cache: false }),
+    ...(options.maxDepth !== undefined && { maxDepth: options.maxDepth }),
+    ...(options.concurrency !== undefined && { concurrency: options.concurrency }),
+  };
+
+  const configFromFile = await ParsemeConfig.fromFile(options.config, {
+    showWarnings: true,
+    throwOnNotFound: true,
+  });
+  const interactiveConfig = await promptForMissingConfig(configFromFile.get());
+
+  // Merge: CLI options > interactive prompts > config file > defaults
+  const finalConfig = {
+    ...interactiveConfig,
+    ...cliOptions,
+  };
+
+  return new ParsemeConfig(finalConfig);
+}
+
+// Parser for numeric options, so that values like "abc" are reported instead of becoming NaN
+function parseInteger(min: number): (value: string) => number {
+  return (value) => {
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isInteger(number) || number < min) {
+      throw new InvalidArgumentError(
+        min > 0 ? 'Must be a positive integer.' : 'Must be a non-negative integer.',
+      );
+    }
+    return number;
+  };
+}
+
+function addAnalysisOptions(command: Command): Command {
+  return command
+    .option('-c, --config <path>', 'Config file path')
+    .option('-o, --output <path>', 'Output file path')
+    .option('-r, --root <path>', 'Root directory to analyze')
+    .option('--context-dir <path>', 'Context directory path (default: parseme-context)')
+    .option('--file-types <types...>', 'File types to analyze (e.g., ts tsx js jsx)')
+    .option('--exclude <patterns...>', 'Exclude patterns (glob)')
+    .option('--no-git-files', 'Disable git for file discovery')
+    .option('--no-git-info', 'Disable git info generation')
+    .option('--no-cache', 'Disable the analysis cache in node_modules/.cache/parseme')
+    .option('--max-depth <number>', 'Maximum directory depth', parseInteger(0))
+    .option(
+      '--concurrency <number>',
+      'Worker threads for AST analysis (default: CPU count)',
+      parseInteger(1),
+    );
+}
+
 program.name('parseme').description('AI Project Context Generator').version('0.1.2');
 
 // Generate command
-program
-  .command('generate')
-  .alias('g')
-  .description('Generate project context using config file')
-  .option('-c, --config <path>', 'Config file path')
-  .option('-o, --output <path>', 'Output file path')
-  .option('-r, --root <path>', 'Root directory to analyze')
-  .option('--context-dir <path>', 'Context directory path (default: parseme-context)')
-  .option('--file-types <types...>', 'File types to analyze (e.g., ts tsx js jsx)')
-  .option('--exclude <patterns...>', 'Exclude patterns (glob)')
-  .option('--no-git-files', 'Disable git for file discovery')
-  .option('--no-git-info', 'Disable git info generation')
-  .option('--max-depth <number>', 'Maximum directory depth', parseInt)
-  .action(async (options) => {
-    try {
-      // Convert CLI options to config format
-      const cliOptions = {
-        ...(options.output && { outputPath: options.output }),
-        ...(options.root && { rootDir: options.root }),
-        ...(options.contextDir && { contextDir: options.contextDir }),
-        ...(options.fileTypes && { analyzeFileTypes: options.fileTypes }),
-        ...(options.exclude && { excludePatterns: options.exclude }),
-        ...(options.gitFiles === false && { useGitForFiles: false }),
-        ...(options.gitInfo === false && { includeGitInfo: false }),
-        ...(options.maxDepth && { maxDepth: options.maxDepth }),
-      };
-
-      const configFromFile = await ParsemeConfig.fromFile(options.config, {
-        showWarnings: true,
-        throwOnNotFound: true,
-      });
-      const interactiveConfig = await promptForMissingConfig(configFromFile.get());
-
-      // Merge: CLI options > interactive prompts > config file > defaults
-      const finalConfig = {
-        ...interactiveConfig,
-        ...cliOptions,
-      };
-
-      const config = new ParsemeConfig(finalConfig);
-      const generator = new ParsemeGenerator(config.get());
-      await generator.generateToFile();
-      console.log('Context generated successfully');
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('No configuration file found')) {
-        console.error(error.message);
-        process.exit(1);
-      }
-      console.error('Failed to generate context:', error);
+addAnalysisOptions(
+  program.command('generate').alias('g').description('Generate project context using config file'),
+).action(async (options) => {
+  try {
+    const config = await loadConfig(options);
+    const generator = new ParsemeGenerator(config.get());
+    await generator.generateToFile();
+    console.log('Context generated successfully');
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('No configuration file found')) {
+      console.error(error.message);
       process.exit(1);
     }
-  });
+    console.error('Failed to generate context:', error);
+    process.exit(1);
+  }
+});
+
+// Check command
+addAnalysisOptions(
+  program
+    .command('check')
+    .alias('c')
+    .description('Check whether the generated context is up to date without writing files'),
+).action(async (options) => {
+  try {
+    const config = await loadConfig(options);
+    const generator = new ParsemeGenerator(config.get());
+    const result = await generator.check();
+
+    if (result.upToDate) {
+      console.log('Context is up to date');
+      return;
+    }
+
+    console.error('Context is out of date:');
+    result.files.forEach((file) => {
+      console.error(`  ${file.status}: ${file.path}`);
+    });
+    console.error('\nRun "parseme generate" with the same options to update it.');
+    process.exit(1);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('No configuration file found')) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error('Failed to check context:', error);
+    process.exit(1);
+  }
+});
+
+// Watch command
+addAnalysisOptions(
+  program
+    .command('watch')
+    .alias('w')
+    .description('Generate project context and keep it updated as files change')
+    .option(
+      '--debounce <ms>',
+      'Delay before regenerating after a change (default: 300)',
+      parseInteger(0),
+    ),
+).action(async (options) => {
+  try {
+    const config = await loadConfig(options);
+    const watcher = new ParsemeWatcher(config.get(), {
+      debounceMs: options.debounce,
+      onUpdate: (files) => console.log(`Context updated: ${files.join(', ')}`),
+      onError: (error) => console.error('Failed to update context:', error),
+    });
+
+    await watcher.start();
+    console.log('Context generated successfully');
+    console.log('Watching for changes (press Ctrl+C to stop)...');
+
+    process.on('SIGINT', async () => {
+      await watcher.close();
+      process.exit(0);
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('No configuration file found')) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error('Failed to watch project:', error);
+    process.exit(1);
+  }
+});
 
 // Init command
 program
@@ -178,6 +277,8 @@ if (process.argv.length <= 2) {
   console.error('No command specified.\n');
   console.error('Available commands:');
   console.error('  parseme generate (or parseme g) - Generate project context');
+  console.error('  parseme check (or parseme c)    - Check whether the context is up to date');
+  console.error('  parseme watch (or parseme w)    - Regenerate context on file changes');
   console.error('  parseme init (or parseme i)     - Initialize parseme configuration');
   console.error('\nUse "parseme --help" for more information');
   process.exit(1);
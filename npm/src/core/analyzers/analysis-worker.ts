@@ -0,0 +1,11 @@
+// Worker thread entry point for parallel AST analysis (see ASTAnalyzer.analyzeProject)
+import { parentPort, workerData } from 'worker_threads';
+
+import { ASTAnalyzer, type AnalysisTask } from './ast-analyzer.js';
+import { ParsemeConfig } from '../config.js';
+
+const analyzer = new ASTAnalyzer(new ParsemeConfig(workerData.config));
+
+parentPort?.on('message', (task: AnalysisTask) => {
+  parentPort?.postMessage(analyzer.analyzeContent(task.content, task.ext, task.relativePath));
+});
@@ -0,0 +1,118 @@
+import { ExportTracer } from './export-tracer.js';
+import { ModuleResolver } from './module-resolver.js';
+
+import type {
+  ApiEntryPoint,
+  ApiSymbol,
+  FileAnalysis,
+  ProjectInfo,
+  TracedExport,
+} from '../types.js';
+
+export class ApiAnalyzer {
+  // Build output directories and the source directories they are usually compiled from
+  private readonly sourceDirs = ['src', 'lib', ''];
+
+  /**
+   * List the symbols reachable from the package entry points, following re-exports to their
+   * declarations. Only npm packages have a public API, so other projects return an empty list.
+   */
+  analyze(
+    projectInfo: ProjectInfo,
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+  ): ApiEntryPoint[] {
+    if (projectInfo.category !== 'npm-package') {
+      return [];
+    }
+
+    const resolver = new ModuleResolver(
+      [...allFiles, ...fileAnalyses.map((file) => file.path)],
+      projectInfo.pathAliases,
+    );
+    const tracer = new ExportTracer(fileAnalyses, resolver);
+    const analyses = new Map(fileAnalyses.map((file) => [file.path, file]));
+    const seenFiles = new Set<string>();
+    const entryPoints: ApiEntryPoint[] = [];
+
+    (projectInfo.entryPoints || []).forEach((entryPoint) => {
+      const file = this.findSourceFile(entryPoint, projectInfo, resolver, analyses);
+      // main, module and types often point at builds of the same source file
+      if (!file || seenFiles.has(file)) {
+        return;
+      }
+      seenFiles.add(file);
+
+      entryPoints.push({
+        entryPoint,
+        file,
+        exports: tracer
+          .getExports(file)
+          .map((entry) => this.describeSymbol(entry, analyses))
+          .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)),
+      });
+    });
+
+    return entryPoints;
+  }
+
+  // Map an entry point like ./dist/index.js or ./dist/index.d.ts to the analyzed source file
+  private findSourceFile(
+    entryPoint: string,
+    projectInfo: ProjectInfo,
+    resolver: ModuleResolver,
+    analyses: Map<string, FileAnalysis>,
+  ): string | undefined {
+    const path = entryPoint.replace(/^\.\//, '').replace(/\.d\.[mc]?ts$/, '');
+    const outputDirs = [...(projectInfo.outputTargets || []), 'dist', 'build', 'lib', 'out'];
+
+    const candidates = [path];
+    outputDirs.forEach((outputDir) => {
+      if (path.startsWith(`${outputDir}/`)) {
+        const rest = path.slice(outputDir.length + 1);
+        this.sourceDirs.forEach((sourceDir) => {
+          candidates.push(sourceDir ? `${sourceDir}/${rest}` : rest);
+        });
+      }
+    });
+
+    for (const candidate of candidates) {
+      const resolved = resolver.resolve(`./${candidate}`, 'package.json');
+      if (resolved.kind === 'file' && analyses.has(resolved.path)) {
+        return resolved.path;
+      }
+    }
+
+    return undefined;
+  }
+
+  private describeSymbol(entry: TracedExport, analyses: Map<string, FileAnalysis>): ApiSymbol {
+    const symbol: ApiSymbol = { name: entry.name, kind: entry.kind, definedIn: entry.definedIn };
+    const declaring = entry.definedIn ? analyses.get(entry.definedIn) : undefined;
+    if (!declaring) {
+      return symbol;
+    }
+
+    const localName = entry.localName ?? entry.name;
+    symbol.summary = declaring.docs?.[localName]?.summary;
+
+    const signatures = declaring.signatures || [];
+    if (entry.kind === 'function') {
+      symbol.signature = signatures.find(
+        (signature) => signature.name === localName && !signature.className,
+      );
+    } else if (entry.kind === 'class') {
+      // export default class has no local name, so fall back to the file's only class
+      const className =
+        localName === 'default' && declaring.classes.length === 1
+          ? declaring.classes[0]
+          : localName;
+      const methods = signatures.filter(
+        (signature) => signature.className === className && signature.visibility !== 'private',
+      );
+      symbol.methods = methods.length > 0 ? methods : undefined;
+    }
+
+    return symbol;
+  }
+}
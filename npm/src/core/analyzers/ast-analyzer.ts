@@ -5,32 +5,64 @@ import { parse } from '@babel/parser';
 import traverse, { type NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 
+import { DocCommentParser } from './doc-comment-parser.js';
 import { PatternDetector, type PatternAnalysis } from './pattern-detector.js';
+import { SfcParser } from './sfc-parser.js';
+import { AnalysisCache } from '../../utils/analysis-cache.js';
 import { FileCollector } from '../../utils/file-collector.js';
+import { WorkerPool } from '../../utils/worker-pool.js';
 
 import type { ParsemeConfig } from '../config.js';
-import type { FileAnalysis } from '../types.js';
+import type { ExportKind, FileAnalysis, FunctionSignature, ParameterInfo } from '../types.js';
+
+type SignatureNode = t.Function | t.TSDeclareFunction | t.TSDeclareMethod;
+
+export interface AnalysisTask {
+  content: string;
+  ext: string;
+  relativePath: string;
+}
 
 export class ASTAnalyzer {
   private readonly fileCollector: FileCollector;
   private readonly patternDetector: PatternDetector;
+  private readonly docCommentParser: DocCommentParser;
+  private readonly sfcParser: SfcParser;
+  // Below this many files per worker, thread startup costs more than it saves
+  private readonly minFilesPerWorker = 50;
 
   constructor(private readonly config: ParsemeConfig) {
     this.fileCollector = new FileCollector(config);
     this.patternDetector = new PatternDetector();
+    this.docCommentParser = new DocCommentParser();
+    this.sfcParser = new SfcParser();
   }
 
-  async analyzeProject(rootDir: string): Promise<FileAnalysis[]> {
-    const result = await this.fileCollector.getCodeFiles(rootDir);
-    const analyses: FileAnalysis[] = [];
+  async analyzeProject(
+    rootDir: string,
+    options: { readOnlyCache?: boolean } = {},
+  ): Promise<FileAnalysis[]> {
+    const files = await this.getCodeFiles(rootDir);
+    const cache = await this.createCache(rootDir, options.readOnlyCache);
+
+    // Results are indexed by file position so parallel analysis keeps the serial order
+    const results: (FileAnalysis | null)[] = new Array(files.length).fill(null);
+    const pending: { index: number; task: AnalysisTask }[] = [];
 
-    for (const file of result.files) {
+    for (const [index, file] of files.entries()) {
       const filePath = join(rootDir, file);
 
       try {
-        const analysis = await this.analyzeFile(filePath, file);
-        if (analysis) {
-          analyses.push(analysis);
+        if (!this.isAnalyzable(filePath)) {
+          continue;
+        }
+
+        const content = await readFile(filePath, 'utf-8');
+        const cached = cache?.get(file, content);
+        if (cached) {
+          results[index] = cached;
+        } else {
+          pending.push({ index, task: { content, ext: extname(filePath), relativePath: file } });
         }
       } catch (error) {
         console.warn(`Failed to analyze ${file}:`, error);
@@ -38,29 +70,143 @@ export class ASTAnalyzer {
       }
     }
 
-    return analyses;
+    const analyses = await this.analyzeTasks(pending.map(({ task }) => task));
+    pending.forEach(({ index, task }, i) => {
+      const analysis = analyses[i];
+      results[index] = analysis;
+      if (analysis) {
+        cache?.set(task.relativePath, task.content, analysis);
+      }
+    });
+
+    await cache?.save();
+
+    return results.filter((analysis): analysis is FileAnalysis => !!analysis);
+  }
+
+  async getCodeFiles(rootDir: string): Promise<string[]> {
+    const result = await this.fileCollector.getCodeFiles(rootDir);
+    return result.files;
   }
 
   async analyzeFile(filePath: string, relativePath: string): Promise<FileAnalysis | null> {
+    // Skip non-JS/TS files for AST analysis
+    if (!this.isAnalyzable(filePath)) {
+      return null;
+    }
+
     try {
       const content = await readFile(filePath, 'utf-8');
-      const ext = extname(filePath);
+      return this.analyzeContent(content, extname(filePath), relativePath);
+    } catch {
+      console.warn(`Failed to read ${relativePath}`);
+      return null;
+    }
+  }
 
-      // Skip non-JS/TS files for AST analysis
-      if (!['.js', '.ts', '.jsx', '.tsx'].includes(ext)) {
-        return null;
-      }
+  // import type, export type ... from, and declarations whose specifiers are all type-only
+  private isTypeOnly(
+    node: t.ImportDeclaration | t.ExportNamedDeclaration | t.ExportAllDeclaration,
+  ): boolean {
+    if (t.isImportDeclaration(node) ? node.importKind === 'type' : node.exportKind === 'type') {
+      return true;
+    }
+
+    const specifiers: t.Node[] = t.isExportAllDeclaration(node) ? [] : node.specifiers;
+    return (
+      specifiers.length > 0 &&
+      specifiers.every(
+        (spec) =>
+          (t.isImportSpecifier(spec) && spec.importKind === 'type') ||
+          (t.isExportSpecifier(spec) && spec.exportKind === 'type'),
+      )
+    );
+  }
+
+  private isAnalyzable(filePath: string): boolean {
+    return ['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro'].includes(
+      extname(filePath),
+    );
+  }
+
+  private async createCache(
+    rootDir: string,
+    readOnly?: boolean,
+  ): Promise<AnalysisCache | undefined> {
+    const configData = this.config.get();
+    if (!configData.cache) {
+      return undefined;
+    }
+
+    // Any change to the parseme version, the analysis format or analysis-relevant config
+    // invalidates the cache
+    const salt = JSON.stringify({
+      version: await AnalysisCache.getParsemeVersion(),
+      format: AnalysisCache.formatVersion,
+      analyzeFileTypes: configData.analyzeFileTypes,
+    });
+    const cache = new AnalysisCache(
+      join(rootDir, 'node_modules', '.cache', 'parseme'),
+      salt,
+      readOnly,
+    );
+    await cache.load();
+    return cache;
+  }
+
+  private async analyzeTasks(tasks: AnalysisTask[]): Promise<(FileAnalysis | null)[]> {
+    const concurrency = this.config.get().concurrency ?? 1;
+    const workerCount = Math.min(concurrency, Math.ceil(tasks.length / this.minFilesPerWorker));
+
+    if (workerCount <= 1) {
+      return tasks.map((task) => this.analyzeContent(task.content, task.ext, task.relativePath));
+    }
 
-      const ast = this.parseFile(content, ext);
+    const pool = new WorkerPool<AnalysisTask, FileAnalysis | null>(
+      new URL('./analysis-worker.js', import.meta.url),
+      workerCount,
+      { config: this.config.get() },
+    );
+
+    try {
+      return await Promise.all(
+        tasks.map(async (task) => {
+          try {
+            return await pool.run(task);
+          } catch (error) {
+            console.warn(`Failed to analyze ${task.relativePath}:`, error);
+            return null;
+          }
+        }),
+      );
+    } finally {
+      await pool.close();
+    }
+  }
+
+  analyzeContent(content: string, ext: string, relativePath: string): FileAnalysis | null {
+    try {
+      // Vue, Svelte and Astro components are analyzed through their script blocks
+      const sfc = this.sfcParser.parse(content, ext);
+      const code = sfc ? sfc.script : content;
+      const ast = this.parseFile(code, sfc ? sfc.ext : ext);
 
       // Use pattern detector to analyze the file
-      const patterns = this.patternDetector.analyzePatterns(ast, relativePath, content);
+      const patterns = this.patternDetector.analyzePatterns(ast, relativePath, code);
+
+      const locations: NonNullable<FileAnalysis['locations']> = {
+        functions: [],
+        classes: [],
+        exports: [],
+      };
 
       const analysis: FileAnalysis = {
         path: relativePath,
         type: this.determineFileType(relativePath, patterns),
         exports: [],
         imports: [],
+        dynamicImports: [],
+        typeImports: [],
         functions: [],
         classes: [],
         routes: patterns.endpoints,
@@ -70,46 +216,235 @@ export class ASTAnalyzer {
         configs: patterns.configs,
         middleware: patterns.middleware,
         utilities: patterns.utilities,
+        modules: patterns.modules,
+        nestApp: patterns.nestApp,
+        mounts: patterns.mounts,
+        routerExports: patterns.routerExports,
+        directives: ast.program.directives
+          .map((directive) => directive.value.value)
+          .filter((value) => value === 'use client' || value === 'use server'),
+        middlewareMatcher: patterns.middlewareMatcher,
+        pages: patterns.pages,
+        angular: Object.values(patterns.angular).some((list) => list.length > 0)
+          ? patterns.angular
+          : undefined,
+        locations,
+        signatures: [],
+        exportKinds: {},
+        reExports: [],
+        summary: this.docCommentParser.parseFileSummary(ast.program, ast.comments || [], code),
+        docs: {},
+      };
+
+      const addExport = (name: string, node: t.Node, kind?: ExportKind): void => {
+        analysis.exports.push(name);
+        locations.exports.push({ name, line: node.loc?.start.line || 0 });
+        if (kind) {
+          analysis.exportKinds![name] = kind;
+        }
+      };
+
+      const addReExport = (
+        name: string,
+        imported: string | undefined,
+        source: string,
+        node: t.Node,
+      ): void => {
+        // export * from has no names of its own, they are known only after tracing the source
+        if (name !== '*') {
+          analysis.exports.push(name);
+          locations.exports.push({ name, line: node.loc?.start.line || 0 });
+        }
+        analysis.reExports!.push({ name, imported, source });
+      };
+
+      // Type-only imports and re-exports are erased at compile time and do not load the module
+      const addImport = (
+        node: t.ImportDeclaration | t.ExportNamedDeclaration | t.ExportAllDeclaration,
+        source: string,
+      ): void => {
+        (this.isTypeOnly(node) ? analysis.typeImports! : analysis.imports).push(source);
+      };
+
+      const addDoc = (name: string, comments: t.Comment[] | null | undefined): void => {
+        const doc = this.docCommentParser.parseSymbolDoc(comments);
+        if (doc) {
+          analysis.docs![name] = doc;
+        }
       };
 
       traverse.default(ast, {
         // Import declarations
         ImportDeclaration: (path: NodePath<t.ImportDeclaration>) => {
-          analysis.imports.push(path.node.source.value);
+          addImport(path.node, path.node.source.value);
         },
 
         // Export declarations
         ExportNamedDeclaration: (path: NodePath<t.ExportNamedDeclaration>) => {
-          if (path.node.declaration) {
-            if (t.isFunctionDeclaration(path.node.declaration) && path.node.declaration.id) {
-              analysis.exports.push(path.node.declaration.id.name);
-            } else if (t.isVariableDeclaration(path.node.declaration)) {
-              path.node.declaration.declarations.forEach((decl: t.VariableDeclarator) => {
-                if (t.isIdentifier(decl.id)) {
-                  analysis.exports.push(decl.id.name);
-                }
-              });
+          const { declaration, source } = path.node;
+
+          // Doc comments are attached to the export statement, not the declaration itself
+          if (t.isVariableDeclaration(declaration)) {
+            declaration.declarations.forEach((decl: t.VariableDeclarator) => {
+              if (!t.isIdentifier(decl.id)) {
+                return;
+              }
+
+              const isFunction =
+                t.isArrowFunctionExpression(decl.init) || t.isFunctionExpression(decl.init);
+              addExport(decl.id.name, decl, isFunction ? 'function' : 'variable');
+              addDoc(decl.id.name, path.node.leadingComments);
+
+              // export const handler = async (req: Request) => { ... }
+              if (t.isArrowFunctionExpression(decl.init) || t.isFunctionExpression(decl.init)) {
+                analysis.signatures!.push(
+                  this.getSignature(decl.init, decl.id.name, 'function', code),
+                );
+              }
+            });
+          } else if (declaration) {
+            const name = this.getDeclarationName(declaration);
+            if (name) {
+              addExport(name, declaration, this.getDeclarationKind(declaration));
+              addDoc(name, path.node.leadingComments);
             }
           }
-          if (path.node.specifiers) {
-            path.node.specifiers.forEach(
-              (spec: t.ExportSpecifier | t.ExportDefaultSpecifier | t.ExportNamespaceSpecifier) => {
-                if (t.isExportSpecifier(spec) && t.isIdentifier(spec.exported)) {
-                  analysis.exports.push(spec.exported.name);
-                }
-              },
-            );
+
+          if (source) {
+            addImport(path.node, source.value);
           }
+
+          path.node.specifiers.forEach((spec) => {
+            const exported = t.isIdentifier(spec.exported)
+              ? spec.exported.name
+              : spec.exported.value;
+
+            if (source) {
+              // export { a as b } from, export * as ns from and export v from
+              const imported = t.isExportSpecifier(spec)
+                ? spec.local.name
+                : t.isExportNamespaceSpecifier(spec)
+                  ? '*'
+                  : 'default';
+              addReExport(exported, imported, source.value, spec);
+              return;
+            }
+
+            if (!t.isExportSpecifier(spec)) {
+              return;
+            }
+
+            // import { a } from './a'; export { a } re-exports just like export { a } from
+            const binding = path.scope.getBinding(spec.local.name);
+            if (binding?.kind === 'module' && t.isImportDeclaration(binding.path.parent)) {
+              addReExport(
+                exported,
+                this.getImportedName(binding.path.node),
+                binding.path.parent.source.value,
+                spec,
+              );
+            } else {
+              addExport(exported, spec, this.getLocalKind(path, spec.local.name));
+            }
+          });
+        },
+
+        // export * from './module'
+        ExportAllDeclaration: (path: NodePath<t.ExportAllDeclaration>) => {
+          addImport(path.node, path.node.source.value);
+          addReExport('*', undefined, path.node.source.value, path.node);
         },
 
-        ExportDefaultDeclaration: (_path: NodePath<t.ExportDefaultDeclaration>) => {
-          analysis.exports.push('default');
+        ExportDefaultDeclaration: (path: NodePath<t.ExportDefaultDeclaration>) => {
+          const { declaration } = path.node;
+          const kind = t.isIdentifier(declaration)
+            ? this.getLocalKind(path, declaration.name)
+            : (this.getDeclarationKind(declaration) ?? 'variable');
+          addExport('default', path.node, kind);
+          addDoc('default', path.node.leadingComments);
         },
 
         // Function declarations
         FunctionDeclaration: (path: NodePath<t.FunctionDeclaration>) => {
           if (path.node.id) {
             analysis.functions.push(path.node.id.name);
+            locations.functions.push({
+              name: path.node.id.name,
+              line: path.node.loc?.start.line || 0,
+            });
+            analysis.signatures!.push(
+              this.getSignature(path.node, path.node.id.name, 'function', code),
+            );
+          }
+        },
+
+        // CommonJS: require('./module'), and lazy import('./module') calls
+        CallExpression: (path: NodePath<t.CallExpression>) => {
+          const [source] = path.node.arguments;
+          if (
+            t.isIdentifier(path.node.callee, { name: 'require' }) &&
+            t.isStringLiteral(source) &&
+            !path.scope.hasBinding('require')
+          ) {
+            analysis.imports.push(source.value);
+          }
+
+          // Only static specifiers are recorded - import(`./locales/${lang}.js`) can't be resolved
+          const specifier = this.getStaticSpecifier(source);
+          if (t.isImport(path.node.callee) && specifier !== undefined) {
+            analysis.dynamicImports!.push(specifier);
+          }
+        },
+
+        // CommonJS: module.exports = ..., module.exports.name = ... and exports.name = ...
+        AssignmentExpression: (path: NodePath<t.AssignmentExpression>) => {
+          const exportName = this.getCommonJsExportName(path);
+          if (!exportName) {
+            return;
+          }
+
+          const { right } = path.node;
+          const statementComments = path.parentPath.isExpressionStatement()
+            ? path.parentPath.node.leadingComments
+            : undefined;
+
+          // module.exports = { create, update() {} } exports each property by name
+          if (exportName === 'default' && t.isObjectExpression(right)) {
+            right.properties.forEach((property) => {
+              if (t.isSpreadElement(property) || property.computed) {
+                return;
+              }
+              const name = t.isIdentifier(property.key)
+                ? property.key.name
+                : t.isStringLiteral(property.key)
+                  ? property.key.value
+                  : undefined;
+              if (!name) {
+                return;
+              }
+
+              const value = t.isObjectProperty(property) ? property.value : property;
+              addExport(name, property, this.isFunctionNode(value) ? 'function' : 'variable');
+              addDoc(name, property.leadingComments);
+              if (this.isFunctionNode(value)) {
+                analysis.signatures!.push(this.getSignature(value, name, 'function', code));
+              }
+            });
+            return;
+          }
+
+          addExport(
+            exportName,
+            path.node,
+            this.isFunctionNode(right)
+              ? 'function'
+              : t.isClassExpression(right)
+                ? 'class'
+                : 'variable',
+          );
+          addDoc(exportName, statementComments);
+          if (this.isFunctionNode(right)) {
+            analysis.signatures!.push(this.getSignature(right, exportName, 'function', code));
           }
         },
 
@@ -117,23 +452,276 @@ export class ASTAnalyzer {
         ClassDeclaration: (path: NodePath<t.ClassDeclaration>) => {
           if (path.node.id) {
             analysis.classes.push(path.node.id.name);
+            locations.classes.push({
+              name: path.node.id.name,
+              line: path.node.loc?.start.line || 0,
+            });
+            analysis.signatures!.push(...this.getMethodSignatures(path.node, code));
+
+            // Methods are documented for exported classes only, private ones are left out
+            if (path.parentPath.isExportDeclaration()) {
+              const className = path.node.id.name;
+              path.node.body.body.forEach((member) => {
+                if (
+                  (t.isClassMethod(member) || t.isTSDeclareMethod(member)) &&
+                  member.accessibility !== 'private' &&
+                  t.isIdentifier(member.key)
+                ) {
+                  addDoc(`${className}.${member.key.name}`, member.leadingComments);
+                }
+              });
+            }
           }
         },
       });
 
-      return analysis;
+      analysis.barrel =
+        analysis.reExports!.length > 0 && Object.keys(analysis.exportKinds!).length === 0;
+
+      if (sfc) {
+        analysis.type = 'component';
+        analysis.components = [
+          ext === '.vue'
+            ? this.patternDetector.analyzeVueComponent(ast, relativePath, sfc.components)
+            : ext === '.svelte'
+              ? this.patternDetector.analyzeSvelteComponent(ast, relativePath, sfc.components)
+              : this.patternDetector.analyzeAstroComponent(ast, relativePath, sfc.components),
+        ];
+      }
+
+      // Give fresh analyses the shape of cached ones, JSON drops undefined keys and later spreads
+      // would otherwise write the output with a different key order
+      return JSON.parse(JSON.stringify(analysis)) as FileAnalysis;
     } catch {
       console.warn(`Failed to parse ${relativePath}`);
       return null;
     }
   }
 
+  private getDeclarationName(declaration: t.Declaration): string | undefined {
+    if (
+      t.isFunctionDeclaration(declaration) ||
+      t.isClassDeclaration(declaration) ||
+      t.isTSDeclareFunction(declaration)
+    ) {
+      return declaration.id?.name;
+    }
+    if (
+      t.isTSInterfaceDeclaration(declaration) ||
+      t.isTSTypeAliasDeclaration(declaration) ||
+      t.isTSEnumDeclaration(declaration)
+    ) {
+      return declaration.id.name;
+    }
+    if (t.isTSModuleDeclaration(declaration) && t.isIdentifier(declaration.id)) {
+      return declaration.id.name;
+    }
+    return undefined;
+  }
+
+  private getDeclarationKind(node: t.Node): ExportKind | undefined {
+    if (t.isFunctionDeclaration(node) || t.isTSDeclareFunction(node) || this.isFunctionNode(node)) {
+      return 'function';
+    }
+    if (t.isClassDeclaration(node) || t.isClassExpression(node)) {
+      return 'class';
+    }
+    if (t.isTSInterfaceDeclaration(node)) {
+      return 'interface';
+    }
+    if (t.isTSTypeAliasDeclaration(node)) {
+      return 'type';
+    }
+    if (t.isTSEnumDeclaration(node)) {
+      return 'enum';
+    }
+    if (t.isTSModuleDeclaration(node)) {
+      return 'namespace';
+    }
+    if (t.isVariableDeclarator(node)) {
+      return node.init && this.isFunctionNode(node.init) ? 'function' : 'variable';
+    }
+    return undefined;
+  }
+
+  // Kind of a local name exported through export { name } or export default name
+  private getLocalKind(path: NodePath, name: string): ExportKind {
+    const binding = path.scope.getBinding(name);
+    if (binding) {
+      return this.getDeclarationKind(binding.path.node) ?? 'variable';
+    }
+
+    // Interfaces and type aliases are not scope bindings
+    const program = path.findParent((parent) => parent.isProgram())?.node as t.Program;
+    for (const statement of program?.body || []) {
+      const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+      if (t.isDeclaration(declaration) && this.getDeclarationName(declaration) === name) {
+        return this.getDeclarationKind(declaration) ?? 'variable';
+      }
+    }
+    return 'variable';
+  }
+
+  private getImportedName(specifier: t.Node): string {
+    if (t.isImportSpecifier(specifier)) {
+      return t.isIdentifier(specifier.imported)
+        ? specifier.imported.name
+        : specifier.imported.value;
+    }
+    return t.isImportNamespaceSpecifier(specifier) ? '*' : 'default';
+  }
+
+  // "default" for module.exports itself, the property name for named CommonJS exports
+  private getCommonJsExportName(path: NodePath<t.AssignmentExpression>): string | undefined {
+    const { left } = path.node;
+    if (!t.isMemberExpression(left) || path.node.operator !== '=') {
+      return undefined;
+    }
+
+    const isModuleExports = (node: t.Node): boolean =>
+      t.isMemberExpression(node) &&
+      t.isIdentifier(node.object, { name: 'module' }) &&
+      t.isIdentifier(node.property, { name: 'exports' }) &&
+      !node.computed &&
+      !path.scope.hasBinding('module');
+
+    if (isModuleExports(left)) {
+      return 'default';
+    }
+
+    const isExportsObject =
+      isModuleExports(left.object) ||
+      (t.isIdentifier(left.object, { name: 'exports' }) && !path.scope.hasBinding('exports'));
+    if (isExportsObject && !left.computed && t.isIdentifier(left.property)) {
+      return left.property.name;
+    }
+
+    return undefined;
+  }
+
+  // String literal or template literal without interpolations, e.g. import(`./page.js`)
+  private getStaticSpecifier(node?: t.Node): string | undefined {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked ?? undefined;
+    }
+    return undefined;
+  }
+
+  private isFunctionNode(
+    node: t.Node,
+  ): node is t.FunctionExpression | t.ArrowFunctionExpression | t.ObjectMethod {
+    return (
+      t.isFunctionExpression(node) || t.isArrowFunctionExpression(node) || t.isObjectMethod(node)
+    );
+  }
+
+  private getMethodSignatures(node: t.ClassDeclaration, content: string): FunctionSignature[] {
+    const className = node.id!.name;
+
+    return node.body.body.flatMap((member) => {
+      if (t.isClassPrivateMethod(member)) {
+        return [
+          {
+            ...this.getSignature(member, `#${member.key.id.name}`, 'method', content),
+            className,
+            static: member.static,
+            visibility: 'private' as const,
+          },
+        ];
+      }
+
+      if (!t.isClassMethod(member) && !t.isTSDeclareMethod(member)) {
+        return [];
+      }
+
+      const name = t.isIdentifier(member.key)
+        ? member.key.name
+        : t.isStringLiteral(member.key)
+          ? member.key.value
+          : this.getSourceText(member.key, content);
+      const kinds = { get: 'getter', set: 'setter', constructor: 'constructor' } as const;
+      const kind = kinds[member.kind as keyof typeof kinds] ?? 'method';
+
+      return [
+        {
+          ...this.getSignature(member, name, kind, content),
+          className,
+          static: member.static,
+          visibility: member.accessibility || 'public',
+        },
+      ];
+    });
+  }
+
+  private getSignature(
+    node: SignatureNode,
+    name: string,
+    kind: FunctionSignature['kind'],
+    content: string,
+  ): FunctionSignature {
+    return {
+      name,
+      kind,
+      params: node.params.map((param) => this.getParameter(param, content)),
+      returnType: t.isTSTypeAnnotation(node.returnType)
+        ? this.getSourceText(node.returnType.typeAnnotation, content)
+        : undefined,
+      async: !!node.async,
+      generator: !!node.generator,
+      line: node.loc?.start.line || 0,
+    };
+  }
+
+  private getParameter(param: SignatureNode['params'][number], content: string): ParameterInfo {
+    // Constructor parameter properties (private readonly config: Config) wrap the parameter
+    if (t.isTSParameterProperty(param)) {
+      return this.getParameter(param.parameter, content);
+    }
+
+    if (t.isAssignmentPattern(param)) {
+      return {
+        ...this.getParameter(param.left as t.Identifier | t.Pattern, content),
+        optional: true,
+        defaultValue: this.getSourceText(param.right, content),
+      };
+    }
+
+    const isRest = t.isRestElement(param);
+    const target = isRest ? param.argument : param;
+    const typeAnnotation = 'typeAnnotation' in param ? param.typeAnnotation : undefined;
+    const optional = 'optional' in target && !!target.optional;
+
+    // Destructuring patterns are kept as written, minus their type annotation
+    const name = t.isIdentifier(target)
+      ? target.name
+      : content
+          .slice(target.start!, typeAnnotation?.start ?? target.end!)
+          .trim()
+          .replace(/\?$/, '');
+
+    return {
+      name: isRest ? `...${name}` : name,
+      type: t.isTSTypeAnnotation(typeAnnotation)
+        ? this.getSourceText(typeAnnotation.typeAnnotation, content)
+        : undefined,
+      optional: optional || undefined,
+    };
+  }
+
+  private getSourceText(node: t.Node, content: string): string {
+    return content.slice(node.start!, node.end!);
+  }
+
   private parseFile(content: string, ext: string): ReturnType<typeof parse> {
     const isTypeScript = ext === '.ts' || ext === '.tsx';
     const isJSX = ext === '.jsx' || ext === '.tsx';
 
     return parse(content, {
-      sourceType: 'module',
+      // .cjs files are never ES modules, so sloppy-mode code must parse there
+      sourceType: ext === '.cjs' ? 'script' : 'module',
       allowImportExportEverywhere: true,
       allowReturnOutsideFunction: true,
       plugins: [
@@ -0,0 +1,245 @@
+import { ExportTracer } from './export-tracer.js';
+import { ModuleResolver } from './module-resolver.js';
+
+import type {
+  DependencyCycle,
+  DependencyGraph,
+  FileAnalysis,
+  PathAliases,
+  TracedExport,
+} from '../types.js';
+
+export class DependencyAnalyzer {
+  /**
+   * Build the import graph between analyzed files. Imports are resolved against all project
+   * files, so imports of non-code files (e.g. JSON) show up as edges as well. Lazy import()
+   * calls and type-only imports are kept as separate dynamicImports and typeImports edges.
+   */
+  analyze(
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+    pathAliases?: PathAliases,
+  ): DependencyGraph {
+    const resolver = this.createResolver(fileAnalyses, allFiles, pathAliases);
+    const graph: DependencyGraph = {};
+
+    const getNode = (path: string): DependencyGraph[string] => {
+      graph[path] ??= {
+        imports: [],
+        importedBy: [],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: [],
+        unresolved: [],
+      };
+      return graph[path];
+    };
+
+    fileAnalyses.forEach((file) => {
+      const node = getNode(file.path);
+      const addImports = (specifiers: string[], kind: 'static' | 'dynamic' | 'type'): void => {
+        const [edges, reverseEdges] = (
+          {
+            static: ['imports', 'importedBy'],
+            dynamic: ['dynamicImports', 'dynamicImportedBy'],
+            type: ['typeImports', 'typeImportedBy'],
+          } as const
+        )[kind];
+
+        specifiers.forEach((specifier) => {
+          const resolved = resolver.resolve(specifier, file.path);
+
+          if (resolved.kind === 'file') {
+            node[edges].push(resolved.path);
+            getNode(resolved.path)[reverseEdges].push(file.path);
+          } else if (resolved.kind === 'package') {
+            node.packages.push(resolved.name);
+          } else {
+            node.unresolved.push(specifier);
+          }
+        });
+      };
+
+      addImports(file.imports || [], 'static');
+      addImports(file.dynamicImports || [], 'dynamic');
+      addImports(file.typeImports || [], 'type');
+    });
+
+    // Sort keys and deduplicate edges so the output is stable between runs
+    return Object.fromEntries(
+      Object.keys(graph)
+        .sort()
+        .map((path) => [
+          path,
+          {
+            imports: this.uniqueSorted(graph[path].imports),
+            importedBy: this.uniqueSorted(graph[path].importedBy),
+            // A file imported both statically and lazily is a static dependency
+            dynamicImports: this.uniqueSorted(graph[path].dynamicImports).filter(
+              (target) => !graph[path].imports.includes(target),
+            ),
+            dynamicImportedBy: this.uniqueSorted(graph[path].dynamicImportedBy).filter(
+              (source) => !graph[path].importedBy.includes(source),
+            ),
+            // Likewise a file whose values are imported as well
+            typeImports: this.uniqueSorted(graph[path].typeImports).filter(
+              (target) => !graph[path].imports.includes(target),
+            ),
+            typeImportedBy: this.uniqueSorted(graph[path].typeImportedBy).filter(
+              (source) => !graph[path].importedBy.includes(source),
+            ),
+            packages: this.uniqueSorted(graph[path].packages),
+            unresolved: this.uniqueSorted(graph[path].unresolved),
+          },
+        ]),
+    );
+  }
+
+  /**
+   * Trace the re-exports of every file that has them to the files declaring each symbol, keyed
+   * by file path.
+   */
+  traceReExports(
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+    pathAliases?: PathAliases,
+  ): Record<string, TracedExport[]> {
+    const tracer = new ExportTracer(
+      fileAnalyses,
+      this.createResolver(fileAnalyses, allFiles, pathAliases),
+    );
+    const reExports: Record<string, TracedExport[]> = {};
+
+    fileAnalyses
+      .filter((file) => file.reExports && file.reExports.length > 0)
+      .forEach((file) => {
+        reExports[file.path] = tracer.getExports(file.path).filter((entry) => entry.source);
+      });
+
+    return reExports;
+  }
+
+  /**
+   * Find import cycles in the graph. Files that can all reach each other (a strongly connected
+   * component) are reported as one cycle, together with the shortest cycle through them.
+   * Dynamic imports are ignored since they don't run while the importing module loads, and
+   * type-only imports since they are erased at compile time.
+   */
+  findCycles(graph: DependencyGraph): DependencyCycle[] {
+    return this.findStronglyConnected(graph)
+      .filter((files) => files.length > 1 || graph[files[0]].imports.includes(files[0]))
+      .map((files) => ({ files, path: this.findShortestCycle(graph, files) }))
+      .sort((a, b) => (a.path[0] < b.path[0] ? -1 : 1));
+  }
+
+  // Tarjan's algorithm - returns every component with its files sorted. Iterative with an explicit
+  // call stack, long import chains in large monorepos would overflow a recursive one
+  private findStronglyConnected(graph: DependencyGraph): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const enter = (file: string): { file: string; next: number } => {
+      indices.set(file, indices.size);
+      lowLinks.set(file, indices.get(file)!);
+      stack.push(file);
+      onStack.add(file);
+      return { file, next: 0 };
+    };
+
+    Object.keys(graph).forEach((root) => {
+      if (indices.has(root)) {
+        return;
+      }
+
+      const callStack = [enter(root)];
+      while (callStack.length > 0) {
+        const frame = callStack[callStack.length - 1];
+        const { file } = frame;
+        const imports = graph[file].imports;
+
+        if (frame.next < imports.length) {
+          const next = imports[frame.next++];
+          if (!indices.has(next)) {
+            callStack.push(enter(next));
+          } else if (onStack.has(next)) {
+            lowLinks.set(file, Math.min(lowLinks.get(file)!, indices.get(next)!));
+          }
+          continue;
+        }
+
+        // All imports visited - close the component rooted here and return to the importer
+        if (lowLinks.get(file) === indices.get(file)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== file);
+          components.push(component.sort());
+        }
+
+        callStack.pop();
+        const parent = callStack[callStack.length - 1];
+        if (parent) {
+          lowLinks.set(parent.file, Math.min(lowLinks.get(parent.file)!, lowLinks.get(file)!));
+        }
+      }
+    });
+
+    return components;
+  }
+
+  private findShortestCycle(graph: DependencyGraph, files: string[]): string[] {
+    const members = new Set(files);
+
+    // Files are sorted, so ties go to the cycle starting with the first file alphabetically
+    return files
+      .map((file) => this.findPathBack(graph, members, file))
+      .reduce((shortest, path) => (path.length < shortest.length ? path : shortest));
+  }
+
+  // Breadth-first search from a file back to itself, staying inside the component
+  private findPathBack(graph: DependencyGraph, members: Set<string>, start: string): string[] {
+    const previous = new Map<string, string>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+
+      if (graph[file].imports.includes(start)) {
+        const path = [start];
+        for (let step = file; step !== start; step = previous.get(step)!) {
+          path.unshift(step);
+        }
+        return [start, ...path];
+      }
+
+      graph[file].imports
+        .filter((next) => members.has(next) && !previous.has(next))
+        .forEach((next) => {
+          previous.set(next, file);
+          queue.push(next);
+        });
+    }
+
+    return [];
+  }
+
+  private createResolver(
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+    pathAliases?: PathAliases,
+  ): ModuleResolver {
+    return new ModuleResolver([...allFiles, ...fileAnalyses.map((file) => file.path)], pathAliases);
+  }
+
+  private uniqueSorted(values: string[]): string[] {
+    return [...new Set(values)].sort();
+  }
+}
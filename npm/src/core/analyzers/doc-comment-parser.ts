@@ -0,0 +1,139 @@
+import type { SymbolDoc } from '../types.js';
+import type { Comment, Program } from '@babel/types';
+
+export class DocCommentParser {
+  // Tooling comments that never describe the code around them
+  private readonly directivePattern =
+    /^(eslint|prettier-ignore|@ts-|global |istanbul |c8 |#region|#endregion)/;
+
+  /**
+   * Parse the JSDoc/TSDoc block directly preceding a node. Returns undefined when the node has
+   * no doc comment or the comment has neither a description nor supported tags.
+   */
+  parseSymbolDoc(comments: Comment[] | null | undefined): SymbolDoc | undefined {
+    const comment = comments?.[comments.length - 1];
+    if (!comment || comment.type !== 'CommentBlock' || !comment.value.startsWith('*')) {
+      return undefined;
+    }
+
+    const { description, tags } = this.splitComment(comment.value);
+    const doc: SymbolDoc = {};
+
+    const summary = this.getFirstSentence(description);
+    if (summary) {
+      doc.summary = summary;
+    }
+
+    tags.forEach(({ tag, text }) => {
+      if (tag === 'param') {
+        // @param {Type} name - description, optional params as [name] or [name=default]
+        const match = text.match(/^(?:\{[^}]*\}\s*)?\[?([\w$.]+)[^\s\]]*\]?\s*(?:-\s*)?(.*)$/s);
+        if (match) {
+          doc.params = { ...doc.params, [match[1]]: this.normalize(match[2]) };
+        }
+      } else if (tag === 'returns' || tag === 'return') {
+        doc.returns = this.normalize(text.replace(/^\{[^}]*\}\s*/, '').replace(/^-\s*/, ''));
+      } else if (tag === 'deprecated') {
+        doc.deprecated = this.normalize(text) || true;
+      }
+    });
+
+    return Object.keys(doc).length > 0 ? doc : undefined;
+  }
+
+  /**
+   * Summarize a file from its header comment: the first comment (block or run of line comments)
+   * at the top of the file, unless it is the doc comment of the declaration right below it.
+   */
+  parseFileSummary(program: Program, comments: Comment[], content: string): string | undefined {
+    const firstStatement = program.body[0];
+    const headerComments = comments.filter(
+      (comment) => !firstStatement || comment.end! <= firstStatement.start!,
+    );
+
+    for (const group of this.groupComments(headerComments, content)) {
+      const text = group.map((comment) => comment.value).join('\n');
+      const { description, tags } = this.splitComment(text);
+
+      if (this.directivePattern.test(description) || /copyright|@license/i.test(text)) {
+        continue;
+      }
+
+      const isFileDoc = tags.some(({ tag }) => ['file', 'fileoverview', 'module'].includes(tag));
+      const last = group[group.length - 1];
+      const isSymbolDoc =
+        !isFileDoc &&
+        last.type === 'CommentBlock' &&
+        last.value.startsWith('*') &&
+        !!firstStatement &&
+        firstStatement.type !== 'ImportDeclaration' &&
+        !content.slice(last.end!, firstStatement.start!).includes('\n\n');
+      if (isSymbolDoc) {
+        return undefined;
+      }
+
+      const fileTag = tags.find(({ tag }) => ['file', 'fileoverview'].includes(tag));
+      return this.getFirstSentence(description) || this.getFirstSentence(fileTag?.text || '');
+    }
+
+    return undefined;
+  }
+
+  // Consecutive line comments form one group, block comments stand on their own
+  private groupComments(comments: Comment[], content: string): Comment[][] {
+    const groups: Comment[][] = [];
+
+    comments.forEach((comment) => {
+      const group = groups[groups.length - 1];
+      const previous = group?.[group.length - 1];
+      const isContinuation =
+        previous?.type === 'CommentLine' &&
+        comment.type === 'CommentLine' &&
+        content.slice(previous.end!, comment.start!).trim() === '';
+
+      if (isContinuation) {
+        group.push(comment);
+      } else {
+        groups.push([comment]);
+      }
+    });
+
+    return groups;
+  }
+
+  private splitComment(value: string): {
+    description: string;
+    tags: { tag: string; text: string }[];
+  } {
+    // Single-line blocks keep their tags on the first line, e.g. /** Load a user. @param id ... */
+    const isSingleLineDoc = value.startsWith('*') && !value.includes('\n');
+    const rawLines = isSingleLineDoc ? value.split(/\s+(?=@\w)/) : value.split('\n');
+    // Drop the leading "*" of JSDoc lines
+    const lines = rawLines.map((line) => line.replace(/^\s*\*+ ?/, '').trimEnd());
+
+    const descriptionLines: string[] = [];
+    const tags: { tag: string; text: string }[] = [];
+    lines.forEach((line) => {
+      const tagMatch = line.match(/^\s*@(\w+)\s*(.*)$/);
+      if (tagMatch) {
+        tags.push({ tag: tagMatch[1], text: tagMatch[2] });
+      } else if (tags.length > 0) {
+        tags[tags.length - 1].text += '\n' + line;
+      } else {
+        descriptionLines.push(line);
+      }
+    });
+
+    return { description: this.normalize(descriptionLines.join('\n')), tags };
+  }
+
+  private getFirstSentence(text: string): string | undefined {
+    const normalized = this.normalize(text);
+    const match = normalized.match(/^.*?[.!?](?=\s|$)/);
+    return (match ? match[0] : normalized) || undefined;
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
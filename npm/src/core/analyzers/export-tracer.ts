@@ -0,0 +1,93 @@
+import type { ModuleResolver } from './module-resolver.js';
+import type { FileAnalysis, TracedExport } from '../types.js';
+
+/**
+ * Follows re-exports (export * from, export { a } from and re-exported imports) to the files that
+ * actually declare each exported symbol.
+ */
+export class ExportTracer {
+  private readonly analyses: Map<string, FileAnalysis>;
+  private readonly traced = new Map<string, TracedExport[]>();
+  private readonly inProgress = new Set<string>();
+
+  constructor(
+    fileAnalyses: FileAnalysis[],
+    private readonly resolver: ModuleResolver,
+  ) {
+    this.analyses = new Map(fileAnalyses.map((analysis) => [analysis.path, analysis]));
+  }
+
+  /**
+   * All exports of a file, with re-exports traced to their declaring file. export * entries are
+   * expanded into the names they re-export, except for packages and unresolved modules.
+   */
+  getExports(file: string): TracedExport[] {
+    const cached = this.traced.get(file);
+    if (cached) {
+      return cached;
+    }
+
+    const analysis = this.analyses.get(file);
+    // Circular re-exports contribute nothing on the second visit
+    if (!analysis || this.inProgress.has(file)) {
+      return [];
+    }
+    this.inProgress.add(file);
+
+    const exports = new Map<string, TracedExport>();
+
+    Object.entries(analysis.exportKinds || {}).forEach(([name, kind]) => {
+      exports.set(name, { name, definedIn: file, kind });
+    });
+
+    const starExports: TracedExport[] = [];
+    (analysis.reExports || []).forEach(({ name, imported, source }) => {
+      const resolved = this.resolver.resolve(source, file);
+      const target = resolved.kind === 'file' ? resolved.path : undefined;
+
+      if (name === '*') {
+        if (!target || !this.analyses.has(target)) {
+          starExports.push({ name, source });
+          return;
+        }
+        // export * never re-exports default
+        this.getExports(target)
+          .filter((entry) => entry.name !== 'default')
+          .forEach((entry) => starExports.push({ ...entry, source }));
+        return;
+      }
+
+      if (!target || imported === '*') {
+        exports.set(name, {
+          name,
+          definedIn: target,
+          kind: imported === '*' ? 'namespace' : undefined,
+          source,
+        });
+        return;
+      }
+
+      const origin = this.getExports(target).find((entry) => entry.name === imported);
+      const localName = origin?.localName ?? imported;
+      exports.set(name, {
+        name,
+        definedIn: origin?.definedIn ?? target,
+        localName: localName !== name ? localName : undefined,
+        kind: origin?.kind,
+        source,
+      });
+    });
+
+    // Explicit exports take precedence over export *, as in ES modules
+    starExports.forEach((entry) => {
+      if (entry.name === '*' || !exports.has(entry.name)) {
+        exports.set(entry.name === '*' ? `*${entry.source}` : entry.name, entry);
+      }
+    });
+
+    this.inProgress.delete(file);
+    const result = [...exports.values()];
+    this.traced.set(file, result);
+    return result;
+  }
+}
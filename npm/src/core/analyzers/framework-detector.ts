@@ -58,6 +58,63 @@ export class FrameworkDetector {
         'express-static': 'static-files',
       },
     },
+    {
+      name: 'koa',
+      detectionKeys: ['koa'],
+      versionKey: 'koa',
+      featureMap: {
+        '@koa/router': 'routing',
+        'koa-router': 'routing',
+        '@koa/cors': 'cors',
+        '@koa/bodyparser': 'body-parsing',
+        'koa-bodyparser': 'body-parsing',
+        'koa-body': 'body-parsing',
+        'koa-helmet': 'security',
+        'koa-static': 'static-files',
+        'koa-session': 'sessions',
+        '@koa/multer': 'file-upload',
+      },
+    },
+    {
+      name: 'hono',
+      detectionKeys: ['hono'],
+      versionKey: 'hono',
+      featureMap: {
+        '@hono/node-server': 'node-server',
+        '@hono/zod-validator': 'validation',
+        '@hono/zod-openapi': 'openapi',
+        '@hono/swagger-ui': 'swagger',
+        '@hono/graphql-server': 'graphql',
+      },
+    },
+    {
+      name: 'hapi',
+      detectionKeys: ['@hapi/hapi', 'hapi'],
+      versionKey: '@hapi/hapi',
+      featureMap: {
+        '@hapi/inert': 'static-files',
+        '@hapi/vision': 'templates',
+        '@hapi/jwt': 'jwt',
+        'hapi-auth-jwt2': 'jwt',
+        '@hapi/cookie': 'sessions',
+        '@hapi/boom': 'http-errors',
+        joi: 'validation',
+        'hapi-swagger': 'swagger',
+      },
+    },
+    {
+      name: 'elysia',
+      detectionKeys: ['elysia'],
+      versionKey: 'elysia',
+      featureMap: {
+        '@elysiajs/cors': 'cors',
+        '@elysiajs/swagger': 'swagger',
+        '@elysiajs/jwt': 'jwt',
+        '@elysiajs/static': 'static-files',
+        '@elysiajs/eden': 'type-safe-client',
+        '@elysiajs/graphql-yoga': 'graphql',
+      },
+    },
     // Fullstack frameworks
     {
       name: 'next.js',
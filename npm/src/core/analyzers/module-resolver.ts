@@ -0,0 +1,127 @@
+import { isBuiltin } from 'module';
+import { posix } from 'path';
+
+import type { PathAliases, ResolvedModule } from '../types.js';
+
+/**
+ * Resolves import specifiers against the set of project files, following the lookup rules of
+ * bundlers and TypeScript: exact paths, extension-less paths, directory index files, `.js`
+ * specifiers that point at TypeScript sources and tsconfig `paths`/`baseUrl` aliases.
+ */
+export class ModuleResolver {
+  private readonly files: Set<string>;
+
+  // Tried in order when a specifier has no extension or does not exist as written
+  private readonly extensions = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+  // TypeScript ESM projects import their sources with the emitted extension
+  private readonly sourceExtensions: Record<string, string[]> = {
+    '.js': ['.ts', '.tsx'],
+    '.jsx': ['.tsx'],
+    '.mjs': ['.mts'],
+    '.cjs': ['.cts'],
+  };
+
+  constructor(
+    files: Iterable<string>,
+    private readonly pathAliases?: PathAliases,
+  ) {
+    this.files = new Set(files);
+  }
+
+  /**
+   * Resolve a specifier imported from the given file. Both the file and the resolved path are
+   * relative to rootDir.
+   */
+  resolve(specifier: string, fromFile: string): ResolvedModule {
+    if (specifier.startsWith('.')) {
+      const target = posix.join(posix.dirname(fromFile), specifier);
+      const path = this.resolvePath(target);
+      return path ? { kind: 'file', path } : { kind: 'unresolved' };
+    }
+
+    // Like TypeScript, fall back to regular package lookup when no alias target exists
+    const aliasPath = this.resolveAlias(specifier);
+    if (aliasPath) {
+      return { kind: 'file', path: aliasPath };
+    }
+
+    if (isBuiltin(specifier)) {
+      return {
+        kind: 'package',
+        name: specifier.startsWith('node:') ? specifier : `node:${specifier}`,
+      };
+    }
+
+    const name = this.getPackageName(specifier);
+    return name ? { kind: 'package', name } : { kind: 'unresolved' };
+  }
+
+  private resolveAlias(specifier: string): string | undefined {
+    if (!this.pathAliases) {
+      return undefined;
+    }
+
+    const { baseUrl, paths } = this.pathAliases;
+
+    // The pattern with the longest prefix before the wildcard wins (exact patterns count as all
+    // prefix), which is how TypeScript picks between overlapping aliases
+    let match: { pattern: string; prefix: string; wildcard: string } | undefined;
+    for (const pattern of Object.keys(paths)) {
+      const [prefix, suffix = ''] = pattern.split('*');
+      const isWildcard = pattern.includes('*');
+      const matches = isWildcard
+        ? specifier.length >= prefix.length + suffix.length &&
+          specifier.startsWith(prefix) &&
+          specifier.endsWith(suffix)
+        : specifier === pattern;
+
+      if (matches && (!match || prefix.length > match.prefix.length)) {
+        const wildcard = isWildcard
+          ? specifier.slice(prefix.length, specifier.length - suffix.length)
+          : '';
+        match = { pattern, prefix, wildcard };
+      }
+    }
+
+    if (match) {
+      for (const target of paths[match.pattern]) {
+        const path = this.resolvePath(posix.normalize(target.replace('*', match.wildcard)));
+        if (path) {
+          return path;
+        }
+      }
+    }
+
+    return baseUrl ? this.resolvePath(posix.join(baseUrl, specifier)) : undefined;
+  }
+
+  private resolvePath(target: string): string | undefined {
+    const candidates = [target];
+
+    const extension = posix.extname(target);
+    const base = target.slice(0, target.length - extension.length);
+    (this.sourceExtensions[extension] || []).forEach((ext) => candidates.push(base + ext));
+
+    this.extensions.forEach((ext) => candidates.push(target + ext));
+    this.extensions.forEach((ext) => candidates.push(posix.join(target, 'index' + ext)));
+
+    return candidates.find((candidate) => this.files.has(candidate));
+  }
+
+  private getPackageName(specifier: string): string | undefined {
+    // Absolute paths, URLs and package.json "imports" (#internal) are not packages
+    if (specifier.startsWith('/') || specifier.startsWith('#') || specifier.includes(':')) {
+      return undefined;
+    }
+
+    const segments = specifier.split('/');
+    if (specifier.startsWith('@')) {
+      // "@/..." is a common alias prefix, not a scoped package
+      return segments.length > 1 && segments[0].length > 1
+        ? `${segments[0]}/${segments[1]}`
+        : undefined;
+    }
+    return segments[0];
+  }
+}
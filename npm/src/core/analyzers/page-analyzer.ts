@@ -0,0 +1,312 @@
+import type { FileAnalysis, PageMap, PageRoute, ProjectInfo } from '../types.js';
+
+interface SegmentRoute {
+  route: string;
+  params?: string[];
+  groups?: string[];
+  slot?: string;
+}
+
+export class PageAnalyzer {
+  // Both Next.js routers live at the project root or in src/
+  private readonly nextAppPattern = /^(?:src\/)?app\/((?:[^/]+\/)*)([\w-]+)\.[jt]sx?$/;
+  private readonly nextPagesPattern = /^(?:src\/)?pages\/(.+)\.[jt]sx?$/;
+  // middleware.ts was renamed to proxy.ts in Next.js 16
+  private readonly middlewarePattern = /^(?:src\/)?(?:middleware|proxy)\.[jt]s$/;
+  private readonly svelteKitPattern =
+    /^src\/routes\/((?:[^/]+\/)*)\+(page|layout|error|server)(\.server)?\.(?:svelte|[jt]s)$/;
+  // Nuxt 4 moved the source directory to app/
+  private readonly nuxtPagePattern = /^(?:app\/|src\/)?pages\/(.+)\.vue$/;
+  private readonly nuxtErrorPattern = /^(?:app\/|src\/)?error\.vue$/;
+  // Flat routes are files or folders with a route module, e.g. app/routes/blog.$slug/route.tsx
+  private readonly flatRoutePattern = /^app\/routes\/([^/]+?)(?:\/route)?\.[jt]sx?$/;
+  private readonly rootRoutePattern = /^app\/root\.[jt]sx?$/;
+  // App Router files rendering UI for a route segment, route.ts handlers are in routes.json
+  private readonly nextAppKinds: PageRoute['kind'][] = [
+    'page',
+    'layout',
+    'template',
+    'loading',
+    'error',
+    'global-error',
+    'not-found',
+    'default',
+  ];
+  private readonly nextSpecialPages: Record<string, PageRoute['kind']> = {
+    _app: 'app',
+    _document: 'document',
+    _error: 'error',
+  };
+  private readonly dataFetchingExports: Record<PageRoute['framework'], string[]> = {
+    'next.js': ['getServerSideProps', 'getStaticProps', 'getStaticPaths'],
+    sveltekit: ['load', 'actions'],
+    'nuxt.js': [],
+    remix: ['loader', 'action', 'clientLoader', 'clientAction'],
+    'react-router': ['loader', 'action', 'clientLoader', 'clientAction'],
+  };
+  private readonly endpointMethods = [
+    'GET',
+    'POST',
+    'PUT',
+    'PATCH',
+    'DELETE',
+    'OPTIONS',
+    'HEAD',
+    'fallback',
+  ];
+
+  /**
+   * Map the route files of Next.js, SvelteKit, Nuxt and Remix or React Router (flat routes)
+   * projects to the URLs they render, together with the React Router route objects found in the
+   * code. File-based routes are only mapped when the project depends on their framework.
+   */
+  analyze(projectInfo: ProjectInfo, fileAnalyses: FileAnalysis[], allFiles: string[]): PageMap {
+    const dependencies = { ...projectInfo.dependencies, ...projectInfo.devDependencies };
+    const analyses = new Map(fileAnalyses.map((file) => [file.path, file]));
+    // Route files left out of analyzeFileTypes are only listed
+    const files = [...new Set([...allFiles, ...analyses.keys()])];
+    const pages: PageRoute[] = [];
+
+    if (dependencies.next) {
+      pages.push(
+        ...files.flatMap(
+          (file) =>
+            this.getNextAppRoute(file, analyses.get(file)) ||
+            this.getNextPagesRoute(file, analyses.get(file)) ||
+            [],
+        ),
+      );
+    }
+    if (dependencies['@sveltejs/kit']) {
+      pages.push(
+        ...files.flatMap((file) => this.getSvelteKitRoute(file, analyses.get(file)) || []),
+      );
+    }
+    if (dependencies.nuxt) {
+      pages.push(...this.getNuxtRoutes(files));
+    }
+
+    // React Router v7 only routes app/routes/ by file name when routes.ts uses flatRoutes()
+    const flatRoutesFramework = dependencies['@react-router/fs-routes']
+      ? 'react-router'
+      : dependencies['@remix-run/dev'] || dependencies['@remix-run/react']
+        ? 'remix'
+        : undefined;
+    if (flatRoutesFramework) {
+      pages.push(...this.getFlatRoutes(files, analyses, flatRoutesFramework));
+    }
+
+    pages.push(...fileAnalyses.flatMap((file) => file.pages || []));
+
+    const middlewareFile = dependencies.next
+      ? fileAnalyses.find((file) => this.middlewarePattern.test(file.path))
+      : undefined;
+
+    return {
+      pages: pages.sort((a, b) =>
+        a.route !== b.route ? (a.route < b.route ? -1 : 1) : a.file < b.file ? -1 : 1,
+      ),
+      middleware: middlewareFile
+        ? { file: middlewareFile.path, matcher: middlewareFile.middlewareMatcher }
+        : undefined,
+    };
+  }
+
+  private getNextAppRoute(file: string, analysis?: FileAnalysis): PageRoute | undefined {
+    const match = file.match(this.nextAppPattern);
+    const kind = this.nextAppKinds.find((candidate) => candidate === match?.[2]);
+    const segments = match?.[1].split('/').filter(Boolean) || [];
+    // Private folders like _components are never routed
+    if (!match || !kind || segments.some((segment) => segment.startsWith('_'))) {
+      return undefined;
+    }
+
+    return {
+      ...this.getSegmentRoute(segments),
+      kind,
+      framework: 'next.js',
+      file,
+      router: 'app',
+      rendering: (analysis?.directives || []).includes('use client') ? 'client' : 'server',
+    };
+  }
+
+  private getNextPagesRoute(file: string, analysis?: FileAnalysis): PageRoute | undefined {
+    const match = file.match(this.nextPagesPattern);
+    // API routes are handlers, not pages, and are listed in routes.json
+    if (!match || match[1] === 'api' || match[1].startsWith('api/')) {
+      return undefined;
+    }
+
+    const special = this.nextSpecialPages[match[1]];
+    const { route, params } = this.getSegmentRoute(
+      match[1].split('/').filter((segment) => segment !== 'index'),
+    );
+
+    return {
+      // _app, _document and _error wrap every page
+      route: special ? '/' : route,
+      kind: special || 'page',
+      framework: 'next.js',
+      file,
+      router: 'pages',
+      params,
+      dataFetching: this.getDataFetching('next.js', analysis),
+    };
+  }
+
+  private getSvelteKitRoute(file: string, analysis?: FileAnalysis): PageRoute | undefined {
+    const match = file.match(this.svelteKitPattern);
+    // +server.server.ts is not a route file
+    if (!match || (match[2] === 'server' && match[3])) {
+      return undefined;
+    }
+
+    const kind = match[2] === 'server' ? 'endpoint' : (match[2] as 'page' | 'layout' | 'error');
+    const methods = this.endpointMethods.filter((name) => analysis?.exports.includes(name));
+
+    return {
+      ...this.getSegmentRoute(match[1].split('/').filter(Boolean)),
+      kind,
+      framework: 'sveltekit',
+      file,
+      // +page.server.ts and +layout.server.ts only run on the server
+      rendering: match[3] ? 'server' : undefined,
+      dataFetching: this.getDataFetching('sveltekit', analysis),
+      methods: kind === 'endpoint' && methods.length > 0 ? methods : undefined,
+    };
+  }
+
+  private getNuxtRoutes(files: string[]): PageRoute[] {
+    const names = files.flatMap((file) => file.match(this.nuxtPagePattern)?.[1] || []);
+
+    return files.flatMap((file): PageRoute[] => {
+      if (this.nuxtErrorPattern.test(file)) {
+        return [{ route: '/', kind: 'error', framework: 'nuxt.js', file }];
+      }
+
+      const name = file.match(this.nuxtPagePattern)?.[1];
+      if (!name) {
+        return [];
+      }
+
+      return [
+        {
+          ...this.getSegmentRoute(name.split('/').filter((segment) => segment !== 'index')),
+          // pages/users.vue renders the pages in pages/users/ through <NuxtPage />
+          kind: names.some((other) => other.startsWith(name + '/')) ? 'layout' : 'page',
+          framework: 'nuxt.js',
+          file,
+        },
+      ];
+    });
+  }
+
+  private getFlatRoutes(
+    files: string[],
+    analyses: Map<string, FileAnalysis>,
+    framework: 'remix' | 'react-router',
+  ): PageRoute[] {
+    const ids = files.flatMap((file) => file.match(this.flatRoutePattern)?.[1] || []);
+
+    return files.flatMap((file): PageRoute[] => {
+      const analysis = analyses.get(file);
+      if (this.rootRoutePattern.test(file)) {
+        return [
+          {
+            route: '/',
+            kind: 'layout',
+            framework,
+            file,
+            dataFetching: this.getDataFetching(framework, analysis),
+          },
+        ];
+      }
+
+      const id = file.match(this.flatRoutePattern)?.[1];
+      if (!id) {
+        return [];
+      }
+
+      const segments: string[] = [];
+      const params: string[] = [];
+      // Dots separate segments unless escaped in brackets, e.g. sitemap[.]xml
+      for (const segment of id.split(/\.(?![^[]*\])/)) {
+        // _index is the index route of its parent, _auth a layout that adds no segment
+        if (segment.startsWith('_')) {
+          continue;
+        }
+        // A trailing underscore (blog_.edit) only opts out of nesting in the blog layout
+        const name = segment.replace(/_$/, '');
+        const param = name === '$' ? '*' : name.match(/^\(?\$(\w+)\)?$/)?.[1];
+        if (param) {
+          params.push(param);
+        }
+        segments.push(name.replace(/\[([^\]]*)\]/g, '$1'));
+      }
+
+      // Route modules without a default export are resource routes serving data or files
+      const kind = ids.some((other) => other.startsWith(id + '.'))
+        ? 'layout'
+        : analysis && !analysis.exports.includes('default')
+          ? 'endpoint'
+          : 'page';
+
+      return [
+        {
+          route: '/' + segments.join('/'),
+          kind,
+          framework,
+          file,
+          params: params.length > 0 ? params : undefined,
+          dataFetching: this.getDataFetching(framework, analysis),
+        },
+      ];
+    });
+  }
+
+  // Folder segments of bracket-style routers: [slug], [...slug] (catch-all), [[...slug]] (optional
+  // catch-all), SvelteKit [id=integer] with a param matcher, (group) and Next.js @slot folders
+  private getSegmentRoute(segments: string[]): SegmentRoute {
+    const routeSegments: string[] = [];
+    const params: string[] = [];
+    const groups: string[] = [];
+    let slot: string | undefined;
+
+    for (const segment of segments) {
+      // Intercepting routes like (.)photo keep their marker, it tells which route they replace
+      if (/^\([^.].*\)$/.test(segment)) {
+        groups.push(segment.slice(1, -1));
+        continue;
+      }
+      if (segment.startsWith('@')) {
+        slot = segment.slice(1);
+        continue;
+      }
+
+      params.push(
+        ...[...segment.matchAll(/\[\[?(?:\.\.\.)?([^\]=]+)(?:=[^\]]+)?\]\]?/g)].map(
+          (match) => match[1],
+        ),
+      );
+      routeSegments.push(segment);
+    }
+
+    return {
+      route: '/' + routeSegments.join('/'),
+      params: params.length > 0 ? params : undefined,
+      groups: groups.length > 0 ? groups : undefined,
+      slot,
+    };
+  }
+
+  private getDataFetching(
+    framework: PageRoute['framework'],
+    analysis?: FileAnalysis,
+  ): string[] | undefined {
+    const names = this.dataFetchingExports[framework].filter((name) =>
+      analysis?.exports.includes(name),
+    );
+    return names.length > 0 ? names : undefined;
+  }
+}
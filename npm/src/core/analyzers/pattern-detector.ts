@@ -1,7 +1,9 @@
-import traverse from '@babel/traverse';
+import traverse, { type NodePath, type Scope } from '@babel/traverse';
 import * as t from '@babel/types';
 
-import type { ComponentInfo, RouteInfo } from '../types.js';
+import { joinRoutePath } from '../../utils/route-path.js';
+
+import type { ComponentInfo, PageRoute, RouteInfo } from '../types.js';
 
 export interface PatternAnalysis {
   endpoints: EndpointInfo[];
@@ -11,10 +13,31 @@ export interface PatternAnalysis {
   configs: ConfigInfo[];
   middleware: MiddlewareInfo[];
   utilities: UtilityInfo[];
+  modules: NestModuleInfo[];
+  nestApp?: NestAppInfo;
+  mounts: RouterMount[];
+  routerExports: Record<string, string>; // Export name -> local router it exports
+  middlewareMatcher?: string[]; // Next.js middleware only runs for paths matching config.matcher
+  pages: PageRoute[]; // React Router route objects
+  angular: AngularInfo;
 }
 
 export interface EndpointInfo extends RouteInfo {
   decorator?: string;
+  controller?: string; // NestJS controller class, its @Controller() prefix is part of the path
+  versions?: string[]; // NestJS @Version(), an empty list for VERSION_NEUTRAL
+  router?: string; // Local app or router variable the route is registered on
+}
+
+// A router mounted on an app or another router, e.g. app.use('/api/users', auth, usersRouter)
+export interface RouterMount {
+  router: string; // Local app or router variable the mount is registered on
+  path: string;
+  target: string; // Local name of the mounted router
+  source?: string; // Module specifier when the mounted router is imported
+  importedName?: string; // Export the router is imported as, "default" for default imports
+  middleware: string[];
+  line: number;
 }
 
 export interface ServiceInfo {
@@ -49,6 +72,83 @@ export interface MiddlewareInfo {
   type: 'function' | 'class' | 'decorator';
 }
 
+// A NestJS @Module() class
+export interface NestModuleInfo {
+  name: string;
+  file: string;
+  line: number;
+  global: boolean;
+  imports: string[];
+  controllers: string[];
+  providers: string[];
+  exports: string[];
+}
+
+// Angular declarations of a file, the project-wide lists are written to angular.json
+export interface AngularInfo {
+  components: AngularComponentInfo[];
+  modules: AngularModuleInfo[];
+  services: AngularServiceInfo[];
+  routes: AngularRouteInfo[];
+}
+
+// An Angular @Component class
+export interface AngularComponentInfo {
+  name: string;
+  file: string;
+  line: number;
+  selector?: string;
+  templateUrl?: string;
+  styleUrls?: string[]; // styleUrls and the single styleUrl of Angular 17+
+  standalone?: boolean; // As declared, components are standalone by default since Angular 19
+  imports: string[]; // Components, directives, pipes and modules of standalone components
+  inputs: string[]; // @Input() properties, input() and model() signals and the inputs option
+  outputs: string[]; // @Output() properties, output(), model() changes and the outputs option
+  providers: string[];
+  dependencies: string[]; // Injected through the constructor or inject()
+}
+
+// An Angular @NgModule class
+export interface AngularModuleInfo {
+  name: string;
+  file: string;
+  line: number;
+  declarations: string[];
+  imports: string[];
+  exports: string[];
+  providers: string[];
+  bootstrap: string[];
+}
+
+// An Angular @Injectable class
+export interface AngularServiceInfo {
+  name: string;
+  file: string;
+  line: number;
+  providedIn?: string; // 'root', 'platform', 'any' or the module providing it
+  dependencies: string[]; // Injected through the constructor or inject()
+}
+
+// An entry of an Angular Routes array
+export interface AngularRouteInfo {
+  path: string; // Joined with the paths of its parent routes
+  file: string;
+  line: number;
+  component?: string;
+  lazy?: string; // Module loaded by loadComponent or loadChildren
+  redirectTo?: string;
+  guards?: string[]; // canActivate, canActivateChild, canDeactivate and canMatch
+}
+
+// Application-wide routing setup from main.ts, applied to the routes of all controllers
+export interface NestAppInfo {
+  globalPrefix?: string;
+  versioning?: {
+    prefix: string; // Prepended to each version, "v" by default
+    defaultVersion?: string[];
+  };
+}
+
 export interface UtilityInfo {
   name: string;
   file: string;
@@ -58,6 +158,46 @@ export interface UtilityInfo {
 }
 
 export class PatternDetector {
+  private readonly httpMethods = [
+    'get',
+    'post',
+    'put',
+    'delete',
+    'patch',
+    'options',
+    'head',
+    'all',
+  ];
+  // Koa (@koa/router), Hono and Elysia apps and routers are created with new
+  private readonly routerClasses = ['Router', 'KoaRouter', 'Hono', 'Elysia'];
+  // Route options holding middleware: Fastify hooks in lifecycle order and Elysia's beforeHandle
+  private readonly routeHooks = [
+    'onRequest',
+    'preParsing',
+    'preValidation',
+    'preHandler',
+    'beforeHandle',
+  ];
+  // Elysia declares its validators directly in the route options
+  private readonly schemaKeys = ['body', 'query', 'params', 'headers', 'response'];
+  // React Router functions taking an array of route objects
+  private readonly routeObjectFactories = [
+    'createBrowserRouter',
+    'createHashRouter',
+    'createMemoryRouter',
+    'useRoutes',
+  ];
+  // Common names of apps and routers. This filters out axios.get(), client.get(), etc.
+  private readonly routeObjectNames = [
+    'app',
+    'router',
+    'server',
+    'fastify',
+    'express',
+    'route',
+    'api',
+  ];
+
   analyzePatterns(ast: t.File, filePath: string, _content: string): PatternAnalysis {
     const analysis: PatternAnalysis = {
       endpoints: [],
@@ -67,7 +207,15 @@ export class PatternDetector {
       configs: [],
       middleware: [],
       utilities: [],
+      modules: [],
+      mounts: [],
+      routerExports: {},
+      pages: [],
+      angular: { components: [], modules: [], services: [], routes: [] },
     };
+    const exportedLocals: Record<string, string> = {};
+    // Angular route arrays can be both declared as Routes and passed to RouterModule.forRoot()
+    const angularRoutes = new Set<t.ArrayExpression>();
 
     // Analyze patterns in the AST
     traverse.default(ast, {
@@ -75,6 +223,10 @@ export class PatternDetector {
       ClassMethod: (path) => {
         const decorators = path.node.decorators;
         if (decorators) {
+          const controller = this.getNestController(path);
+          const methodVersion = this.getDecoratorCall(path.node, 'Version')?.arguments[0];
+          const versions = methodVersion ? this.getVersions(methodVersion) : controller?.versions;
+
           decorators.forEach((decorator) => {
             if (t.isDecorator(decorator) && t.isCallExpression(decorator.expression)) {
               const callee = decorator.expression.callee;
@@ -84,13 +236,18 @@ export class PatternDetector {
                   const route = decorator.expression.arguments[0];
                   const routePath = t.isStringLiteral(route) ? route.value : '/';
 
-                  analysis.endpoints.push({
-                    method: callee.name.toUpperCase(),
-                    path: routePath,
-                    handler: t.isIdentifier(path.node.key) ? path.node.key.name : 'anonymous',
-                    file: filePath,
-                    line: path.node.loc?.start.line || 0,
-                    decorator: callee.name,
+                  // Controllers register each method route under every one of their prefixes
+                  (controller?.prefixes ?? [undefined]).forEach((prefix) => {
+                    analysis.endpoints.push({
+                      method: callee.name.toUpperCase(),
+                      path: controller ? joinRoutePath(prefix!, routePath) : routePath,
+                      handler: t.isIdentifier(path.node.key) ? path.node.key.name : 'anonymous',
+                      file: filePath,
+                      line: path.node.loc?.start.line || 0,
+                      decorator: callee.name,
+                      controller: controller?.name,
+                      versions,
+                    });
                   });
                 }
               }
@@ -100,59 +257,177 @@ export class PatternDetector {
       },
 
       // Detect Express/Fastify-style routes: app.get(), router.post(), fastify.get(), etc.
-      CallExpression: (path) => {
-        const { callee, arguments: args } = path.node;
+      // Handled on exit so chained routes, e.g. new Hono().get().post(), keep their source order
+      CallExpression: {
+        exit: (path) => {
+          const { callee, arguments: args } = path.node;
+
+          // NestJS application setup: app.setGlobalPrefix('api') and app.enableVersioning()
+          if (
+            t.isMemberExpression(callee) &&
+            t.isIdentifier(callee.property, { name: 'setGlobalPrefix' })
+          ) {
+            if (t.isStringLiteral(args[0])) {
+              analysis.nestApp = { ...analysis.nestApp, globalPrefix: args[0].value };
+            }
+          }
+          if (
+            t.isMemberExpression(callee) &&
+            t.isIdentifier(callee.property, { name: 'enableVersioning' })
+          ) {
+            const versioning = this.getUriVersioning(args[0]);
+            if (versioning) {
+              analysis.nestApp = { ...analysis.nestApp, versioning };
+            }
+          }
 
-        if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
-          const httpMethods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
-          const methodName = callee.property.name;
+          if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+            const methodName = callee.property.name;
+            // Routes can also be chained on the app itself, e.g. new Elysia().get(...).post(...)
+            const root = this.getChainRoot(callee.object);
+            const isRouter = this.isRouterExpression(path.scope, root);
+            const router = t.isIdentifier(root)
+              ? this.getRouterName(path.scope, root)
+              : this.getAssignedName(path);
+            const prefix = isRouter ? this.getRouterPrefix(path.scope, callee.object) : '';
+            const withPrefix = (routePath: string): string =>
+              prefix ? joinRoutePath(prefix, routePath) : routePath;
 
-          if (httpMethods.includes(methodName) && args.length >= 2) {
-            const routePath = args[0];
             // Only detect if:
             // 1. First argument is a string literal (route path)
-            // 2. Object is a known route handler name
-            if (t.isStringLiteral(routePath) && t.isIdentifier(callee.object)) {
-              const objectName = callee.object.name;
-              const routeObjectNames = [
-                'app',
-                'router',
-                'server',
-                'fastify',
-                'express',
-                'route',
-                'api',
-              ];
-
-              // Only detect if it's a common route object name
-              // This filters out axios.get(), client.get(), etc.
-              if (routeObjectNames.includes(objectName.toLowerCase())) {
-                analysis.endpoints.push({
-                  method: methodName.toUpperCase(),
-                  path: routePath.value,
-                  handler: 'anonymous',
-                  file: filePath,
-                  line: path.node.loc?.start.line || 0,
+            // 2. Object is a known app or router
+            if (
+              isRouter &&
+              this.httpMethods.includes(methodName) &&
+              args.length >= 2 &&
+              t.isStringLiteral(args[0])
+            ) {
+              analysis.endpoints.push({
+                method: methodName.toUpperCase(),
+                path: withPrefix(args[0].value),
+                ...this.getHandlerChain(args.slice(1), path.scope),
+                file: filePath,
+                line: path.node.loc?.start.line || 0,
+                router,
+              });
+            }
+
+            // Hono: app.on('PURGE', '/cache', handler) or app.on(['GET', 'POST'], '/form', handler)
+            if (isRouter && methodName === 'on' && args.length >= 3 && t.isStringLiteral(args[1])) {
+              const methods = this.getStringValues(args[0]);
+              const routePath = args[1].value;
+              if (methods.length > 0 && methods.every((method) => /^[A-Z]+$/.test(method))) {
+                methods.forEach((method) => {
+                  analysis.endpoints.push({
+                    method,
+                    path: withPrefix(routePath),
+                    ...this.getHandlerChain(args.slice(2), path.scope),
+                    file: filePath,
+                    line: path.node.loc?.start.line || 0,
+                    router,
+                  });
                 });
               }
             }
+
+            // Object routes: Fastify fastify.route({ method, url, schema, handler }) and Hapi
+            // server.route({ method, path, handler }), each also taking an array of routes
+            if (
+              isRouter &&
+              methodName === 'route' &&
+              (t.isObjectExpression(args[0]) || t.isArrayExpression(args[0]))
+            ) {
+              analysis.endpoints.push(
+                ...this.getObjectRoutes(args[0], path.scope, filePath, router).map((endpoint) => ({
+                  ...endpoint,
+                  path: withPrefix(endpoint.path),
+                })),
+              );
+            }
+
+            // Chained routes: router.route('/users').get(list).post(auth, create)
+            if (
+              isRouter &&
+              methodName === 'route' &&
+              args.length === 1 &&
+              t.isStringLiteral(args[0])
+            ) {
+              let chain: NodePath = path;
+              while (
+                chain.parentPath?.isMemberExpression({ object: chain.node }) &&
+                chain.parentPath.parentPath?.isCallExpression({ callee: chain.parentPath.node })
+              ) {
+                const { property } = chain.parentPath.node;
+                const call = chain.parentPath.parentPath.node;
+                if (t.isIdentifier(property) && this.httpMethods.includes(property.name)) {
+                  analysis.endpoints.push({
+                    method: property.name.toUpperCase(),
+                    path: withPrefix(args[0].value),
+                    ...this.getHandlerChain(call.arguments, path.scope),
+                    file: filePath,
+                    line: call.loc?.start.line || 0,
+                    router,
+                  });
+                }
+                chain = chain.parentPath.parentPath;
+              }
+            }
+
+            // Router mounts: app.use('/api/users', auth, usersRouter), Hono app.route('/books', books)
+            // and Fastify plugins registered with fastify.register(usersRoutes, { prefix: '/users' })
+            const isHonoMount =
+              methodName === 'route' && args.length === 2 && t.isStringLiteral(args[0]);
+            const mountArgs =
+              methodName === 'register' && args.length > 0
+                ? this.getPluginMountArgs(args)
+                : methodName === 'use' || isHonoMount
+                  ? args
+                  : undefined;
+            if (isRouter && router && mountArgs) {
+              const mount = this.getRouterMount(path, router, mountArgs);
+              if (mount) {
+                analysis.mounts.push(
+                  prefix ? { ...mount, path: joinRoutePath(prefix, mount.path) } : mount,
+                );
+              }
+            }
           }
-        }
 
-        // Detect Nuxt.js server routes: defineEventHandler()
-        if (t.isIdentifier(callee) && callee.name === 'defineEventHandler') {
-          // Extract route path from file path
-          // Nuxt server routes are in server/api/ or server/routes/
-          const routePath = this.extractNuxtRoutePath(filePath);
+          // Angular: RouterModule.forRoot(routes), RouterModule.forChild(routes), provideRouter(routes)
+          const routerProvider = t.isMemberExpression(callee)
+            ? t.isIdentifier(callee.object, { name: 'RouterModule' }) &&
+              t.isIdentifier(callee.property) &&
+              ['forRoot', 'forChild'].includes(callee.property.name)
+            : t.isIdentifier(callee, { name: 'provideRouter' });
+          const routes = routerProvider ? this.resolveArray(path.scope, args[0]) : undefined;
+          if (routes) {
+            angularRoutes.add(routes);
+          }
 
-          analysis.endpoints.push({
-            method: 'GET/POST',
-            path: routePath,
-            handler: 'defineEventHandler',
-            file: filePath,
-            line: path.node.loc?.start.line || 0,
-          });
-        }
+          // React Router: createBrowserRouter([{ path: '/', element: <Root />, children: [...] }])
+          if (
+            t.isIdentifier(callee) &&
+            this.routeObjectFactories.includes(callee.name) &&
+            args.length > 0
+          ) {
+            analysis.pages.push(...this.getRouteObjects(args[0], path.scope, filePath, '/'));
+          }
+
+          // Detect Nuxt.js server routes: defineEventHandler()
+          if (t.isIdentifier(callee) && callee.name === 'defineEventHandler') {
+            // Extract route path from file path
+            // Nuxt server routes are in server/api/ or server/routes/
+            const routePath = this.extractNuxtRoutePath(filePath);
+
+            analysis.endpoints.push({
+              method: 'GET/POST',
+              path: routePath,
+              handler: 'defineEventHandler',
+              file: filePath,
+              line: path.node.loc?.start.line || 0,
+            });
+          }
+        },
       },
 
       // Detect TypeScript interfaces and type aliases
@@ -192,6 +467,34 @@ export class PatternDetector {
       ExportNamedDeclaration: (path) => {
         const declaration = path.node.declaration;
 
+        // Remember exported locals so mounts in other files can find the router they import
+        if (!path.node.source) {
+          path.node.specifiers.forEach((specifier) => {
+            if (t.isExportSpecifier(specifier)) {
+              exportedLocals[
+                t.isIdentifier(specifier.exported)
+                  ? specifier.exported.name
+                  : specifier.exported.value
+              ] = specifier.local.name;
+            }
+          });
+        }
+        if (t.isVariableDeclaration(declaration)) {
+          declaration.declarations.forEach((declarator) => {
+            if (t.isIdentifier(declarator.id)) {
+              exportedLocals[declarator.id.name] = declarator.id.name;
+            }
+            if (
+              /^(?:src\/)?(?:middleware|proxy)\.[jt]s$/.test(filePath) &&
+              t.isIdentifier(declarator.id, { name: 'config' }) &&
+              t.isObjectExpression(declarator.init)
+            ) {
+              const matcher = this.getProperty(declarator.init, 'matcher');
+              analysis.middlewareMatcher = matcher ? this.getMatcherPaths(matcher) : undefined;
+            }
+          });
+        }
+
         if (t.isFunctionDeclaration(declaration) && declaration.id) {
           const functionName = declaration.id.name;
           const httpMethods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'];
@@ -213,6 +516,48 @@ export class PatternDetector {
         }
       },
 
+      ExportDefaultDeclaration: (path) => {
+        const { declaration } = path.node;
+        if (t.isIdentifier(declaration)) {
+          exportedLocals.default = declaration.name;
+        } else if (t.isFunctionDeclaration(declaration)) {
+          // Plugins are named after their function, see getRouterName()
+          exportedLocals.default = declaration.id?.name ?? 'default';
+        }
+      },
+
+      // CommonJS exports: module.exports = router, exports.usersRouter = usersRouter
+      AssignmentExpression: (path) => {
+        const { left, right } = path.node;
+        if (!t.isMemberExpression(left) || left.computed || !t.isIdentifier(left.property)) {
+          return;
+        }
+
+        const isModuleExports =
+          t.isIdentifier(left.object, { name: 'module' }) && left.property.name === 'exports';
+        if (isModuleExports && t.isIdentifier(right)) {
+          exportedLocals.default = right.name;
+        } else if (isModuleExports && t.isObjectExpression(right)) {
+          right.properties.forEach((property) => {
+            if (
+              t.isObjectProperty(property) &&
+              t.isIdentifier(property.key) &&
+              t.isIdentifier(property.value)
+            ) {
+              exportedLocals[property.key.name] = property.value.name;
+            }
+          });
+        } else if (
+          t.isIdentifier(right) &&
+          (t.isIdentifier(left.object, { name: 'exports' }) ||
+            (t.isMemberExpression(left.object) &&
+              t.isIdentifier(left.object.object, { name: 'module' }) &&
+              t.isIdentifier(left.object.property, { name: 'exports' })))
+        ) {
+          exportedLocals[left.property.name] = right.name;
+        }
+      },
+
       // Detect React components
       FunctionDeclaration: (path) => {
         const functionName = path.node.id?.name;
@@ -229,12 +574,16 @@ export class PatternDetector {
           }
 
           // React components (check for JSX return)
-          if (this.hasJSXReturn(path.node.body)) {
-            analysis.components.push({
-              name: functionName,
-              file: filePath,
-              line: path.node.loc?.start.line || 0,
-            });
+          if (this.isComponentName(functionName) && this.returnsJSX(path)) {
+            analysis.components.push(
+              this.getReactComponent(
+                functionName,
+                filePath,
+                path.node.loc?.start.line || 0,
+                path,
+                this.getParamProps(path.node, ast.program),
+              ),
+            );
           }
 
           // Middleware functions (req, res, next pattern)
@@ -262,6 +611,49 @@ export class PatternDetector {
         }
       },
 
+      // React components declared as arrow functions or function expressions, also wrapped in
+      // memo() or forwardRef(), e.g. const Input = forwardRef<HTMLInputElement, Props>(...)
+      VariableDeclarator: (path) => {
+        const { id } = path.node;
+
+        // Angular: const routes: Routes = [...]
+        const routes = this.resolveArray(path.scope, path.node.init);
+        if (
+          routes &&
+          t.isIdentifier(id) &&
+          t.isTSTypeAnnotation(id.typeAnnotation) &&
+          t.isTSTypeReference(id.typeAnnotation.typeAnnotation) &&
+          t.isIdentifier(id.typeAnnotation.typeAnnotation.typeName, { name: 'Routes' })
+        ) {
+          angularRoutes.add(routes);
+        }
+
+        if (!t.isIdentifier(id) || !this.isComponentName(id.name)) {
+          return;
+        }
+
+        const component = this.getWrappedFunction(path.get('init'));
+        if (component && this.returnsJSX(component.path)) {
+          // const Button: React.FC<ButtonProps> = (props) => ...
+          const annotation = t.isTSTypeAnnotation(id.typeAnnotation)
+            ? id.typeAnnotation.typeAnnotation
+            : undefined;
+          const propsType =
+            component.propsType ||
+            (t.isTSTypeReference(annotation) ? annotation.typeParameters?.params[0] : undefined);
+
+          analysis.components.push(
+            this.getReactComponent(
+              id.name,
+              filePath,
+              path.node.loc?.start.line || 0,
+              component.path,
+              this.getParamProps(component.path.node, ast.program, propsType),
+            ),
+          );
+        }
+      },
+
       // Detect service classes and components
       ClassDeclaration: (path) => {
         const className = path.node.id?.name;
@@ -297,11 +689,89 @@ export class PatternDetector {
             file: filePath,
             line: path.node.loc?.start.line || 0,
             methods,
-            dependencies: [],
+            dependencies: this.getInjectedDependencies(path.node),
             type: 'class',
           });
         }
 
+        // NestJS modules
+        const moduleOptions = this.getDecoratorCall(path.node, 'Module')?.arguments[0];
+        if (t.isObjectExpression(moduleOptions)) {
+          analysis.modules.push({
+            name: className,
+            file: filePath,
+            line: path.node.loc?.start.line || 0,
+            global: !!this.getDecoratorCall(path.node, 'Global'),
+            imports: this.getProviderList(moduleOptions, 'imports'),
+            controllers: this.getProviderList(moduleOptions, 'controllers'),
+            providers: this.getProviderList(moduleOptions, 'providers'),
+            exports: this.getProviderList(moduleOptions, 'exports'),
+          });
+        }
+
+        // Angular components, modules and services
+        const component = this.getAngularDecorator(path, 'Component');
+        if (component) {
+          const options = this.getOptionsArgument(component);
+          const { inputs, outputs } = this.getAngularBindings(path.node, options);
+          const selector = this.getProperty(options, 'selector');
+          const templateUrl = this.getProperty(options, 'templateUrl');
+          const standalone = this.getProperty(options, 'standalone');
+          const styleUrls = ['styleUrls', 'styleUrl'].flatMap((key) => {
+            const value = this.getProperty(options, key);
+            return value ? this.getStringValues(value) : [];
+          });
+
+          analysis.angular.components.push({
+            name: className,
+            file: filePath,
+            line: path.node.loc?.start.line || 0,
+            selector: t.isStringLiteral(selector) ? selector.value : undefined,
+            templateUrl: t.isStringLiteral(templateUrl) ? templateUrl.value : undefined,
+            styleUrls: styleUrls.length > 0 ? styleUrls : undefined,
+            standalone: t.isBooleanLiteral(standalone) ? standalone.value : undefined,
+            imports: this.getProviderList(options, 'imports'),
+            inputs,
+            outputs,
+            providers: this.getProviderList(options, 'providers'),
+            dependencies: this.getAngularDependencies(path),
+          });
+          analysis.components.push({
+            name: className,
+            file: filePath,
+            line: path.node.loc?.start.line || 0,
+            props: inputs,
+            emits: outputs,
+          });
+        }
+
+        const ngModule = this.getAngularDecorator(path, 'NgModule');
+        if (ngModule) {
+          const options = this.getOptionsArgument(ngModule);
+          analysis.angular.modules.push({
+            name: className,
+            file: filePath,
+            line: path.node.loc?.start.line || 0,
+            declarations: this.getProviderList(options, 'declarations'),
+            imports: this.getProviderList(options, 'imports'),
+            exports: this.getProviderList(options, 'exports'),
+            providers: this.getProviderList(options, 'providers'),
+            bootstrap: this.getProviderList(options, 'bootstrap'),
+          });
+        }
+
+        const injectable = this.getAngularDecorator(path, 'Injectable');
+        if (injectable) {
+          const providedIn = this.getProperty(this.getOptionsArgument(injectable), 'providedIn');
+          analysis.angular.services.push({
+            name: className,
+            file: filePath,
+            line: path.node.loc?.start.line || 0,
+            providedIn: providedIn ? this.getProviderName(providedIn) : undefined,
+            dependencies: this.getAngularDependencies(path),
+          });
+        }
+
         // React class components (check for render method)
         const hasRenderMethod = path.node.body.body.some(
           (member) =>
@@ -309,24 +779,1265 @@ export class PatternDetector {
         );
 
         if (hasRenderMethod) {
-          analysis.components.push({
-            name: className,
-            file: filePath,
-            line: path.node.loc?.start.line || 0,
-          });
+          // class Profile extends Component<ProfileProps, ProfileState>
+          const propsType = path.node.superTypeParameters?.params[0];
+          analysis.components.push(
+            this.getReactComponent(
+              className,
+              filePath,
+              path.node.loc?.start.line || 0,
+              path,
+              propsType ? this.getTypeMemberNames(propsType, ast.program) : [],
+            ),
+          );
         }
       },
     });
 
+    const routers = new Set([
+      ...analysis.endpoints.map((endpoint) => endpoint.router),
+      ...analysis.mounts.map((mount) => mount.router),
+    ]);
+    analysis.routerExports = Object.fromEntries(
+      Object.entries(exportedLocals).filter(([, local]) => routers.has(local)),
+    );
+    analysis.angular.routes = [...angularRoutes].flatMap((routes) =>
+      this.getAngularRoutes(routes, filePath, '/'),
+    );
+
     return analysis;
   }
 
-  private hasJSXReturn(body: t.BlockStatement): boolean {
-    return body.body.some(
-      (stmt) => t.isReturnStatement(stmt) && stmt.argument && t.isJSXElement(stmt.argument),
+  /**
+   * Describe a Vue single-file component from the AST of its script blocks: the props and emits
+   * declared with defineProps(), defineEmits() and defineModel() or the Options API, and the
+   * composables it calls.
+   */
+  analyzeVueComponent(ast: t.File, filePath: string, children: string[]): ComponentInfo {
+    let name = this.getComponentFileName(filePath);
+    const props: string[] = [];
+    const emits: string[] = [];
+    const composables: string[] = [];
+
+    const addOptions = (options: t.Node | undefined): void => {
+      if (!t.isObjectExpression(options)) {
+        return;
+      }
+      const optionName = this.getProperty(options, 'name');
+      if (optionName && t.isStringLiteral(optionName)) {
+        name = optionName.value;
+      }
+      props.push(...this.getDeclaredNames(this.getProperty(options, 'props')));
+      emits.push(...this.getDeclaredNames(this.getProperty(options, 'emits')));
+    };
+
+    traverse.default(ast, {
+      // Options API: export default { props, emits } or export default defineComponent({ ... })
+      ExportDefaultDeclaration: (path) => {
+        const { declaration } = path.node;
+        addOptions(
+          t.isCallExpression(declaration) &&
+            t.isIdentifier(declaration.callee, { name: 'defineComponent' })
+            ? declaration.arguments[0]
+            : declaration,
+        );
+      },
+
+      CallExpression: (path) => {
+        const { callee, arguments: args } = path.node;
+        if (!t.isIdentifier(callee)) {
+          return;
+        }
+
+        // defineProps<{ title: string }>() and defineEmits<{ (e: 'close'): void }>()
+        const typeArgument = path.node.typeParameters?.params[0];
+        if (callee.name === 'defineProps' || callee.name === 'defineEmits') {
+          const names = typeArgument
+            ? this.getTypeMemberNames(typeArgument, ast.program)
+            : this.getDeclaredNames(args[0]);
+          (callee.name === 'defineProps' ? props : emits).push(...names);
+        } else if (callee.name === 'defineModel') {
+          // v-model bindings are a prop plus its update event
+          const model = t.isStringLiteral(args[0]) ? args[0].value : 'modelValue';
+          props.push(model);
+          emits.push(`update:${model}`);
+        } else if (callee.name === 'defineOptions') {
+          addOptions(args[0]);
+        } else if (/^use[A-Z0-9]/.test(callee.name)) {
+          composables.push(callee.name);
+        }
+      },
+    });
+
+    return {
+      name,
+      file: filePath,
+      line: 1, // The whole file is the component
+      props: [...new Set(props)],
+      emits: [...new Set(emits)],
+      composables: [...new Set(composables)],
+      children,
+    };
+  }
+
+  /**
+   * Describe a Svelte component from the AST of its scripts: props are declared with export let in
+   * Svelte 4 and destructured from $props() in Svelte 5.
+   */
+  analyzeSvelteComponent(ast: t.File, filePath: string, children: string[]): ComponentInfo {
+    const props: string[] = [];
+
+    traverse.default(ast, {
+      ExportNamedDeclaration: (path) => {
+        const { declaration } = path.node;
+        // export const and export function are read-only exports, not props
+        if (t.isVariableDeclaration(declaration) && declaration.kind !== 'const') {
+          declaration.declarations.forEach((declarator) => {
+            if (t.isIdentifier(declarator.id)) {
+              props.push(declarator.id.name);
+            }
+          });
+        }
+      },
+
+      // let { title, size = 'sm' }: Props = $props()
+      VariableDeclarator: (path) => {
+        const { id, init } = path.node;
+        if (t.isCallExpression(init) && t.isIdentifier(init.callee, { name: '$props' })) {
+          props.push(...this.getPatternProps(id, ast.program, init.typeParameters?.params[0]));
+        }
+      },
+    });
+
+    return {
+      name: this.getComponentFileName(filePath),
+      file: filePath,
+      line: 1, // The whole file is the component
+      props: [...new Set(props)],
+      children,
+    };
+  }
+
+  /**
+   * Describe an Astro component from the AST of its frontmatter: props come from its Props
+   * interface or type and from destructuring Astro.props.
+   */
+  analyzeAstroComponent(ast: t.File, filePath: string, children: string[]): ComponentInfo {
+    const props = this.getTypeMemberNames(t.tsTypeReference(t.identifier('Props')), ast.program);
+
+    traverse.default(ast, {
+      // const { title, description = '' } = Astro.props
+      VariableDeclarator: (path) => {
+        const { id, init } = path.node;
+        if (
+          t.isMemberExpression(init) &&
+          t.isIdentifier(init.object, { name: 'Astro' }) &&
+          t.isIdentifier(init.property, { name: 'props' })
+        ) {
+          props.push(...this.getPatternProps(id, ast.program));
+        }
+      },
+    });
+
+    return {
+      name: this.getComponentFileName(filePath),
+      file: filePath,
+      line: 1, // The whole file is the component
+      props: [...new Set(props)],
+      children,
+    };
+  }
+
+  // Known app/router names, and apps or routers created with express(), Router(),
+  // express.Router(), Fastify(), Hapi.server(), new Router(), new Hono() or new Elysia()
+  private isRouterExpression(scope: Scope, node: t.Node): boolean {
+    if (this.isHapiServer(node)) {
+      return true;
+    }
+    if (t.isNewExpression(node)) {
+      return t.isIdentifier(node.callee) && this.routerClasses.includes(node.callee.name);
+    }
+    if (t.isCallExpression(node)) {
+      return (
+        t.isIdentifier(node.callee) &&
+        ['express', 'Router', 'fastify', 'Fastify'].includes(node.callee.name)
+      );
+    }
+    if (!t.isIdentifier(node)) {
+      return false;
+    }
+    if (this.routeObjectNames.includes(node.name.toLowerCase()) || /router$/i.test(node.name)) {
+      return true;
+    }
+
+    const binding = scope.getBinding(node.name);
+    if (binding?.path.isVariableDeclarator() && binding.path.node.init) {
+      return this.isRouterExpression(binding.path.scope, this.getChainRoot(binding.path.node.init));
+    }
+    const callback = this.getPrefixedCallback(binding?.path);
+    return (
+      !!callback &&
+      this.isRouterExpression(callback.call.scope, this.getChainRoot(callback.call.node))
+    );
+  }
+
+  // Prefix set where the app or router is created: new Router({ prefix }), new Elysia({ prefix }),
+  // new Hono().basePath('/api'), an Elysia .group('/v1', (app) => ...) callback or a Fastify
+  // plugin registered inline with fastify.register((instance) => ..., { prefix })
+  private getRouterPrefix(scope: Scope, node: t.Node): string {
+    if (t.isNewExpression(node)) {
+      const [options] = node.arguments;
+      const prefix = t.isObjectExpression(options)
+        ? this.getProperty(options, 'prefix')
+        : undefined;
+      return t.isStringLiteral(prefix) ? prefix.value : '';
+    }
+    if (t.isCallExpression(node) && t.isMemberExpression(node.callee)) {
+      const base = this.getRouterPrefix(scope, node.callee.object);
+      const [basePath] = node.arguments;
+      return t.isIdentifier(node.callee.property, { name: 'basePath' }) &&
+        t.isStringLiteral(basePath)
+        ? joinRoutePath(base, basePath.value)
+        : base;
+    }
+    if (!t.isIdentifier(node)) {
+      return '';
+    }
+
+    const binding = scope.getBinding(node.name);
+    if (binding?.path.isVariableDeclarator() && binding.path.node.init) {
+      return this.getRouterPrefix(binding.path.scope, binding.path.node.init);
+    }
+    const callback = this.getPrefixedCallback(binding?.path);
+    if (callback && t.isMemberExpression(callback.call.node.callee)) {
+      return joinRoutePath(
+        this.getRouterPrefix(callback.call.scope, callback.call.node.callee.object),
+        callback.prefix,
+      );
+    }
+    return '';
+  }
+
+  // The call passing a scoped app to a callback when the binding is the callback's parameter:
+  // app.group('/prefix', (app) => ...) or fastify.register((instance) => ..., { prefix })
+  private getPrefixedCallback(
+    binding?: NodePath,
+  ): { call: NodePath<t.CallExpression>; prefix: string } | undefined {
+    const callback = binding?.parentPath;
+    const call = callback?.parentPath;
+    if (binding?.listKey !== 'params' || !callback || !call?.isCallExpression()) {
+      return undefined;
+    }
+
+    const { callee, arguments: args } = call.node;
+    if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) {
+      return undefined;
+    }
+    if (
+      callee.property.name === 'group' &&
+      t.isStringLiteral(args[0]) &&
+      args[1] === callback.node
+    ) {
+      return { call, prefix: args[0].value };
+    }
+    if (callee.property.name === 'register' && args[0] === callback.node) {
+      const prefix = t.isObjectExpression(args[1])
+        ? this.getProperty(args[1], 'prefix')
+        : undefined;
+      return { call, prefix: t.isStringLiteral(prefix) ? prefix.value : '' };
+    }
+    return undefined;
+  }
+
+  // Routes registered on the app parameter of a named plugin function belong to the plugin, so
+  // fastify.register(usersRoutes) can be matched to `async function usersRoutes(fastify) {...}`
+  private getRouterName(scope: Scope, node: t.Identifier): string {
+    const binding = scope.getBinding(node.name);
+    const plugin = binding?.path.listKey === 'params' ? binding.path.parentPath : undefined;
+    if (plugin?.isFunctionDeclaration()) {
+      return plugin.node.id?.name ?? 'default';
+    }
+    if (plugin?.parentPath?.isVariableDeclarator() && t.isIdentifier(plugin.parentPath.node.id)) {
+      return plugin.parentPath.node.id.name;
+    }
+    return plugin?.parentPath?.isExportDefaultDeclaration() ? 'default' : node.name;
+  }
+
+  // fastify.register(plugin, { prefix }) as mount arguments: the prefix path, then the plugin
+  private getPluginMountArgs(args: t.CallExpression['arguments']): t.CallExpression['arguments'] {
+    const [plugin, options] = args;
+    const prefix = t.isObjectExpression(options) ? this.getProperty(options, 'prefix') : undefined;
+    return t.isStringLiteral(prefix) ? [prefix, plugin] : [plugin];
+  }
+
+  // new Hono().get(...).post(...) -> new Hono(), Hapi.server().route(...) -> Hapi.server()
+  private getChainRoot(node: t.Node): t.Node {
+    let root = node;
+    while (
+      t.isCallExpression(root) &&
+      t.isMemberExpression(root.callee) &&
+      !this.isHapiServer(root)
+    ) {
+      root = root.callee.object;
+    }
+    return root;
+  }
+
+  // Hapi servers are created with Hapi.server(), Hapi.Server() or new Hapi.Server()
+  private isHapiServer(node: t.Node): boolean {
+    if (!t.isCallExpression(node) && !t.isNewExpression(node)) {
+      return false;
+    }
+    const { callee } = node;
+    return (
+      t.isMemberExpression(callee) &&
+      t.isIdentifier(callee.object) &&
+      callee.object.name.toLowerCase() === 'hapi' &&
+      t.isIdentifier(callee.property) &&
+      ['server', 'Server'].includes(callee.property.name)
+    );
+  }
+
+  // Variable a chain of calls is assigned to: const users = new Elysia().get(...).post(...)
+  private getAssignedName(path: NodePath): string | undefined {
+    let chain = path;
+    while (
+      chain.parentPath?.isMemberExpression({ object: chain.node }) &&
+      chain.parentPath.parentPath?.isCallExpression()
+    ) {
+      chain = chain.parentPath.parentPath;
+    }
+    const declarator = chain.parentPath;
+    return declarator?.isVariableDeclarator() && t.isIdentifier(declarator.node.id)
+      ? declarator.node.id.name
+      : undefined;
+  }
+
+  // Route configs: Fastify { method: 'GET', url: '/users/:id', schema, handler } and Hapi
+  // { method: 'GET', path: '/users/{id}', handler }, with the Hapi handler optionally nested in
+  // options (or config in older versions)
+  private getObjectRoutes(
+    node: t.Node,
+    scope: Scope,
+    file: string,
+    router?: string,
+  ): EndpointInfo[] {
+    const configs = t.isArrayExpression(node) ? node.elements : [node];
+
+    return configs.flatMap((config) => {
+      if (!t.isObjectExpression(config)) {
+        return [];
+      }
+
+      const method = this.getProperty(config, 'method');
+      const routePath = this.getProperty(config, 'url') ?? this.getProperty(config, 'path');
+      if (!method || !t.isStringLiteral(routePath)) {
+        return [];
+      }
+
+      const handlerChain = this.getHandlerChain([config], scope);
+      return this.getStringValues(method).map((name) => ({
+        method: name.toUpperCase(),
+        path: routePath.value,
+        ...handlerChain,
+        file,
+        line: config.loc?.start.line || 0,
+        router,
+      }));
+    });
+  }
+
+  // React Router route objects and their nested children, with paths joined to the parent path
+  private getRouteObjects(
+    node: t.Node,
+    scope: Scope,
+    file: string,
+    parentPath: string,
+  ): PageRoute[] {
+    // Route arrays are often declared first: const routes = [...]; createBrowserRouter(routes)
+    if (t.isIdentifier(node)) {
+      const declarator = scope.getBinding(node.name)?.path.node;
+      return t.isVariableDeclarator(declarator) && declarator.init
+        ? this.getRouteObjects(declarator.init, scope, file, parentPath)
+        : [];
+    }
+    if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+      return this.getRouteObjects(node.expression, scope, file, parentPath);
+    }
+    if (!t.isArrayExpression(node)) {
+      return [];
+    }
+
+    return node.elements.flatMap((element) => {
+      if (!t.isObjectExpression(element)) {
+        return [];
+      }
+
+      // Index routes and pathless layouts render at their parent's path, absolute paths replace it
+      const routePath = this.getProperty(element, 'path');
+      const route = !t.isStringLiteral(routePath)
+        ? parentPath
+        : routePath.value.startsWith('/')
+          ? joinRoutePath(routePath.value)
+          : joinRoutePath(parentPath, routePath.value);
+      const children = this.getProperty(element, 'children');
+      const childRoutes = children ? this.getRouteObjects(children, scope, file, route) : [];
+      const params = route
+        .split('/')
+        .flatMap((segment) =>
+          segment === '*'
+            ? ['*']
+            : segment.startsWith(':')
+              ? [segment.slice(1).replace(/\?$/, '')]
+              : [],
+        );
+      const dataFetching = ['loader', 'action'].filter((key) =>
+        element.properties.some(
+          (property) =>
+            (t.isObjectProperty(property) || t.isObjectMethod(property)) &&
+            t.isIdentifier(property.key, { name: key }),
+        ),
+      );
+      const page: PageRoute = {
+        route,
+        kind: childRoutes.length > 0 ? 'layout' : 'page',
+        framework: 'react-router',
+        file,
+        line: element.loc?.start.line || 0,
+        component: this.getRouteComponent(element),
+        params: params.length > 0 ? params : undefined,
+        dataFetching: dataFetching.length > 0 ? dataFetching : undefined,
+      };
+
+      return [page, ...childRoutes];
+    });
+  }
+
+  // element: <Root />, Component: Root or lazy: () => import('./routes/root')
+  private getRouteComponent(route: t.ObjectExpression): string | undefined {
+    const component = this.getProperty(route, 'Component');
+    if (component && t.isIdentifier(component)) {
+      return component.name;
+    }
+
+    const element = this.getProperty(route, 'element');
+    if (element && t.isJSXElement(element)) {
+      return this.getJSXName(element.openingElement.name);
+    }
+
+    const lazy = this.getProperty(route, 'lazy');
+    if (
+      lazy &&
+      t.isArrowFunctionExpression(lazy) &&
+      t.isCallExpression(lazy.body) &&
+      t.isImport(lazy.body.callee) &&
+      t.isStringLiteral(lazy.body.arguments[0])
+    ) {
+      return lazy.body.arguments[0].value;
+    }
+    return undefined;
+  }
+
+  // The last argument handles the request, everything before it is middleware. Fastify and
+  // Elysia also take an options object with hooks, schemas or the handler itself
+  private getHandlerChain(
+    args: t.CallExpression['arguments'],
+    scope: Scope,
+  ): {
+    handler: string;
+    middleware?: string[];
+    schema?: Record<string, unknown>;
+  } {
+    const options = args.find((arg): arg is t.ObjectExpression => t.isObjectExpression(arg));
+    const chain = args.filter((arg) => arg !== options);
+    const handler =
+      chain.length > 0 ? chain[chain.length - 1] : options && this.getOptionsHandler(options);
+    const hooks = options ? this.routeHooks.map((hook) => this.getProperty(options, hook)) : [];
+    const middleware = [...hooks, ...chain.slice(0, -1)]
+      .flatMap((arg): (t.Node | null | undefined)[] =>
+        t.isArrayExpression(arg) ? arg.elements : [arg],
+      )
+      .map((arg) => (arg ? this.getMiddlewareName(arg) : undefined))
+      .filter((name): name is string => !!name);
+
+    return {
+      handler: (handler && this.getExpressionName(handler)) || 'anonymous',
+      middleware: middleware.length > 0 ? middleware : undefined,
+      schema: options && this.getRouteSchema(options, scope),
+    };
+  }
+
+  private getOptionsHandler(options: t.ObjectExpression): t.Node | undefined {
+    const nested = this.getProperty(options, 'options') ?? this.getProperty(options, 'config');
+    return (
+      this.getProperty(options, 'handler') ??
+      (t.isObjectExpression(nested) ? this.getProperty(nested, 'handler') : undefined)
+    );
+  }
+
+  // Fastify's schema option, or Elysia's body/query/params/headers/response validators
+  private getRouteSchema(
+    options: t.ObjectExpression,
+    scope: Scope,
+  ): Record<string, unknown> | undefined {
+    const schema = this.getProperty(options, 'schema');
+    const entries = schema
+      ? [['schema', schema] as const]
+      : this.schemaKeys.map((key) => [key, this.getProperty(options, key)] as const);
+    const values = entries
+      .filter((entry): entry is readonly [string, t.Node] => !!entry[1])
+      .map(([key, value]) => [key, this.toStaticValue(value, scope)] as const);
+
+    if (schema) {
+      const value = values[0][1];
+      return value && typeof value === 'object' && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : undefined;
+    }
+    return values.length > 0 ? Object.fromEntries(values) : undefined;
+  }
+
+  // JSON value of a literal expression. Constants are followed to their initializer and anything
+  // else is described by name, e.g. "UserSchema" or "Type.Object(...)"
+  private toStaticValue(node: t.Node, scope: Scope, seen = new Set<t.Node>()): unknown {
+    if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node)) {
+      return node.value;
+    }
+    if (t.isNullLiteral(node)) {
+      return null;
+    }
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked;
+    }
+    if (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument)) {
+      return -node.argument.value;
+    }
+    if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+      return this.toStaticValue(node.expression, scope, seen);
+    }
+    if (t.isArrayExpression(node)) {
+      return node.elements.map((element) =>
+        element ? this.toStaticValue(element, scope, seen) : null,
+      );
+    }
+    if (t.isObjectExpression(node)) {
+      return Object.fromEntries(
+        node.properties.flatMap((property) => {
+          if (!t.isObjectProperty(property) || property.computed) {
+            return [];
+          }
+          const key = t.isIdentifier(property.key)
+            ? property.key.name
+            : t.isStringLiteral(property.key) || t.isNumericLiteral(property.key)
+              ? String(property.key.value)
+              : undefined;
+          return key === undefined ? [] : [[key, this.toStaticValue(property.value, scope, seen)]];
+        }),
+      );
+    }
+
+    const binding = t.isIdentifier(node) ? scope.getBinding(node.name) : undefined;
+    if (
+      binding?.constant &&
+      binding.path.isVariableDeclarator() &&
+      binding.path.node.init &&
+      !seen.has(binding.path.node)
+    ) {
+      seen.add(binding.path.node);
+      return this.toStaticValue(binding.path.node.init, binding.path.scope, seen);
+    }
+
+    if (t.isCallExpression(node)) {
+      const callee = this.getExpressionName(node.callee);
+      return callee && `${callee}(...)`;
+    }
+    return this.getExpressionName(node);
+  }
+
+  // auth, passport.authenticate('jwt') or validate(schema) - inline functions have no name
+  private getMiddlewareName(node: t.Node): string | undefined {
+    return t.isCallExpression(node)
+      ? this.getExpressionName(node.callee)
+      : this.getExpressionName(node);
+  }
+
+  private getRouterMount(
+    path: NodePath<t.CallExpression>,
+    router: string,
+    args: t.CallExpression['arguments'],
+  ): RouterMount | undefined {
+    const [first] = args;
+    const mountPath = t.isStringLiteral(first) ? first.value : '';
+    // Koa mounts routers through router.routes(), allowedMethods() only answers OPTIONS requests
+    const getRouterCall = (arg: t.Node, name: string): t.MemberExpression | undefined =>
+      t.isCallExpression(arg) &&
+      t.isMemberExpression(arg.callee) &&
+      t.isIdentifier(arg.callee.property, { name })
+        ? arg.callee
+        : undefined;
+    const chain = (t.isStringLiteral(first) ? args.slice(1) : args)
+      .filter((arg) => !getRouterCall(arg, 'allowedMethods'))
+      .map((arg) => getRouterCall(arg, 'routes')?.object ?? arg);
+    const target = chain[chain.length - 1];
+    const middleware = this.getHandlerChain(chain, path.scope).middleware ?? [];
+    const line = path.node.loc?.start.line || 0;
+
+    // app.use('/users', require('./routes/users')) or fastify.register(import('./routes/users'))
+    if (
+      t.isCallExpression(target) &&
+      (t.isIdentifier(target.callee, { name: 'require' }) || t.isImport(target.callee)) &&
+      t.isStringLiteral(target.arguments[0])
+    ) {
+      const source = target.arguments[0].value;
+      return {
+        router,
+        path: mountPath,
+        target: 'default',
+        source,
+        importedName: 'default',
+        middleware,
+        line,
+      };
+    }
+    if (!t.isIdentifier(target)) {
+      return undefined;
+    }
+
+    const mount: RouterMount = { router, path: mountPath, target: target.name, middleware, line };
+    const binding = path.scope.getBinding(target.name);
+    if (!binding) {
+      return mount;
+    }
+
+    const importDeclaration = binding.path.parentPath;
+    if (binding.path.isImportDefaultSpecifier() && importDeclaration?.isImportDeclaration()) {
+      return { ...mount, source: importDeclaration.node.source.value, importedName: 'default' };
+    }
+    if (binding.path.isImportSpecifier() && importDeclaration?.isImportDeclaration()) {
+      const { imported } = binding.path.node;
+      return {
+        ...mount,
+        source: importDeclaration.node.source.value,
+        importedName: t.isIdentifier(imported) ? imported.name : imported.value,
+      };
+    }
+
+    // const usersRouter = require('./users') or const { usersRouter } = require('./users')
+    if (binding.path.isVariableDeclarator()) {
+      const { id, init } = binding.path.node;
+      if (
+        !t.isCallExpression(init) ||
+        !t.isIdentifier(init.callee, { name: 'require' }) ||
+        !t.isStringLiteral(init.arguments[0])
+      ) {
+        return mount;
+      }
+
+      const source = init.arguments[0].value;
+      if (t.isIdentifier(id)) {
+        return { ...mount, source, importedName: 'default' };
+      }
+      const property = t.isObjectPattern(id)
+        ? id.properties.find(
+            (candidate): candidate is t.ObjectProperty =>
+              t.isObjectProperty(candidate) &&
+              t.isIdentifier(candidate.value, { name: target.name }),
+          )
+        : undefined;
+      if (property && t.isIdentifier(property.key)) {
+        return { ...mount, source, importedName: property.key.name };
+      }
+    }
+
+    return mount;
+  }
+
+  // Name, path prefixes and version of the @Controller() class declaring a route method
+  private getNestController(
+    path: NodePath<t.ClassMethod>,
+  ): { name: string; prefixes: string[]; versions?: string[] } | undefined {
+    const classPath = path.parentPath.parentPath;
+    if (!classPath?.isClassDeclaration() || !classPath.node.id) {
+      return undefined;
+    }
+
+    const controller = this.getDecoratorCall(classPath.node, 'Controller');
+    if (!controller) {
+      return undefined;
+    }
+
+    // @Controller('cats'), @Controller(['cats', 'kittens']) or @Controller({ path, version })
+    const [options] = controller.arguments;
+    const pathOption = t.isObjectExpression(options) ? this.getProperty(options, 'path') : options;
+    const versionOption = t.isObjectExpression(options)
+      ? this.getProperty(options, 'version')
+      : undefined;
+    const prefixes = pathOption ? this.getStringValues(pathOption) : [];
+
+    return {
+      name: classPath.node.id.name,
+      prefixes: prefixes.length > 0 ? prefixes : [''],
+      versions: versionOption ? this.getVersions(versionOption) : undefined,
+    };
+  }
+
+  // Only URI versioning changes route paths - header and media type versioning don't
+  private getUriVersioning(options?: t.Node): NestAppInfo['versioning'] | undefined {
+    if (options && !t.isObjectExpression(options)) {
+      return undefined;
+    }
+
+    const type = options && this.getProperty(options, 'type');
+    if (type && !(t.isMemberExpression(type) && t.isIdentifier(type.property, { name: 'URI' }))) {
+      return undefined;
+    }
+
+    const prefix = options && this.getProperty(options, 'prefix');
+    const defaultVersion = options && this.getProperty(options, 'defaultVersion');
+
+    return {
+      prefix: t.isStringLiteral(prefix) ? prefix.value : t.isBooleanLiteral(prefix) ? '' : 'v',
+      defaultVersion: defaultVersion ? this.getVersions(defaultVersion) : undefined,
+    };
+  }
+
+  // Constructor parameters resolved by the DI container, by @Inject() token or type
+  private getInjectedDependencies(node: t.ClassDeclaration): string[] {
+    const constructor = node.body.body.find(
+      (member): member is t.ClassMethod => t.isClassMethod(member) && member.kind === 'constructor',
+    );
+
+    return (constructor?.params ?? [])
+      .map((param) => {
+        const target = t.isTSParameterProperty(param) ? param.parameter : param;
+        const token = this.getDecoratorCall(target, 'Inject')?.arguments[0];
+        if (token) {
+          return this.getProviderName(token);
+        }
+
+        const typeAnnotation =
+          'typeAnnotation' in target && t.isTSTypeAnnotation(target.typeAnnotation)
+            ? target.typeAnnotation.typeAnnotation
+            : undefined;
+        return t.isTSTypeReference(typeAnnotation)
+          ? this.getExpressionName(typeAnnotation.typeName)
+          : undefined;
+      })
+      .filter((name): name is string => !!name);
+  }
+
+  private getProviderList(options: t.ObjectExpression, key: string): string[] {
+    const value = this.getProperty(options, key);
+    return t.isArrayExpression(value)
+      ? value.elements
+          .map((element) => (element ? this.getProviderName(element) : undefined))
+          .filter((name): name is string => !!name)
+      : [];
+  }
+
+  // Module and provider entries: UsersService, forwardRef(() => AuthModule),
+  // TypeOrmModule.forFeature([User]) or { provide: APP_GUARD, useClass: AuthGuard }
+  private getProviderName(node: t.Node): string | undefined {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isCallExpression(node)) {
+      const [factory] = node.arguments;
+      if (
+        t.isIdentifier(node.callee, { name: 'forwardRef' }) &&
+        t.isArrowFunctionExpression(factory)
+      ) {
+        return this.getProviderName(factory.body);
+      }
+      return this.getExpressionName(node.callee);
+    }
+    if (t.isObjectExpression(node)) {
+      const token = this.getProperty(node, 'provide');
+      return token ? this.getProviderName(token) : undefined;
+    }
+    return this.getExpressionName(node);
+  }
+
+  private getExpressionName(node: t.Node): string | undefined {
+    if (t.isIdentifier(node)) {
+      return node.name;
+    }
+    if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+      const objectName = this.getExpressionName(node.object);
+      return objectName && `${objectName}.${node.property.name}`;
+    }
+    if (t.isTSQualifiedName(node)) {
+      const leftName = this.getExpressionName(node.left);
+      return leftName && `${leftName}.${node.right.name}`;
+    }
+    return undefined;
+  }
+
+  // Only decorators imported from @angular/core, NestJS has an @Injectable() decorator as well
+  private getAngularDecorator(
+    path: NodePath<t.ClassDeclaration>,
+    name: string,
+  ): t.CallExpression | undefined {
+    const decorator = this.getDecoratorCall(path.node, name);
+    const importDeclaration = path.scope.getBinding(name)?.path.parentPath;
+    return decorator &&
+      importDeclaration?.isImportDeclaration() &&
+      importDeclaration.node.source.value === '@angular/core'
+      ? decorator
+      : undefined;
+  }
+
+  // Options of a decorator, an empty object for @Injectable()
+  private getOptionsArgument(decorator: t.CallExpression): t.ObjectExpression {
+    const [options] = decorator.arguments;
+    return t.isObjectExpression(options) ? options : t.objectExpression([]);
+  }
+
+  private getAngularBindings(
+    node: t.ClassDeclaration,
+    options: t.ObjectExpression,
+  ): { inputs: string[]; outputs: string[] } {
+    // inputs: ['value', 'label: ariaLabel'] lists the property, then its public alias
+    const getOption = (key: string): string[] => {
+      const value = this.getProperty(options, key);
+      return value ? this.getStringValues(value).map((name) => name.split(':')[0].trim()) : [];
+    };
+    const inputs = getOption('inputs');
+    const outputs = getOption('outputs');
+
+    node.body.body.forEach((member) => {
+      const name =
+        (t.isClassProperty(member) || t.isClassMethod(member)) && !member.computed
+          ? this.getKeyName(member.key)
+          : undefined;
+      if (!name) {
+        return;
+      }
+
+      // @Input() value, @Input() set value(...) and @Output() changed = new EventEmitter()
+      if (this.getDecoratorCall(member, 'Input')) {
+        inputs.push(name);
+      }
+      if (this.getDecoratorCall(member, 'Output')) {
+        outputs.push(name);
+      }
+
+      // value = input<string>(), input.required<string>(), model() and changed = output()
+      const value = t.isClassProperty(member) ? member.value : undefined;
+      const callee = t.isCallExpression(value)
+        ? t.isMemberExpression(value.callee)
+          ? value.callee.object
+          : value.callee
+        : undefined;
+      if (!t.isIdentifier(callee)) {
+        return;
+      }
+      if (callee.name === 'input' || callee.name === 'model') {
+        inputs.push(name);
+      }
+      if (callee.name === 'model') {
+        outputs.push(`${name}Change`);
+      }
+      if (callee.name === 'output' || callee.name === 'outputFromObservable') {
+        outputs.push(name);
+      }
+    });
+
+    return { inputs: [...new Set(inputs)], outputs: [...new Set(outputs)] };
+  }
+
+  // Constructor parameters and inject(AuthService) calls
+  private getAngularDependencies(path: NodePath<t.ClassDeclaration>): string[] {
+    const dependencies = this.getInjectedDependencies(path.node);
+    path.traverse({
+      CallExpression: (inner) => {
+        const [token] = inner.node.arguments;
+        const name =
+          t.isIdentifier(inner.node.callee, { name: 'inject' }) && token
+            ? this.getProviderName(token)
+            : undefined;
+        if (name) {
+          dependencies.push(name);
+        }
+      },
+    });
+    return [...new Set(dependencies)];
+  }
+
+  private resolveArray(
+    scope: Scope,
+    node: t.Node | null | undefined,
+  ): t.ArrayExpression | undefined {
+    if (t.isIdentifier(node)) {
+      const declarator = scope.getBinding(node.name)?.path.node;
+      return t.isVariableDeclarator(declarator)
+        ? this.resolveArray(scope, declarator.init)
+        : undefined;
+    }
+    if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)) {
+      return this.resolveArray(scope, node.expression);
+    }
+    return t.isArrayExpression(node) ? node : undefined;
+  }
+
+  private getAngularRoutes(
+    routes: t.ArrayExpression,
+    file: string,
+    parentPath: string,
+  ): AngularRouteInfo[] {
+    return routes.elements.flatMap((element) => {
+      if (!t.isObjectExpression(element)) {
+        return [];
+      }
+
+      // Routes without a path, or with path: '', render at their parent's path
+      const routePath = this.getProperty(element, 'path');
+      const fullPath = t.isStringLiteral(routePath)
+        ? joinRoutePath(parentPath, routePath.value)
+        : parentPath;
+      const component = this.getProperty(element, 'component');
+      const redirectTo = this.getProperty(element, 'redirectTo');
+      const lazy = ['loadComponent', 'loadChildren']
+        .map((key) => this.getProperty(element, key))
+        .find(Boolean);
+      const guards = ['canActivate', 'canActivateChild', 'canDeactivate', 'canMatch'].flatMap(
+        (key) => this.getProviderList(element, key),
+      );
+      const children = this.getProperty(element, 'children');
+
+      return [
+        {
+          path: fullPath,
+          file,
+          line: element.loc?.start.line || 0,
+          component: component ? this.getExpressionName(component) : undefined,
+          lazy: lazy ? this.getLazyImport(lazy) : undefined,
+          redirectTo: t.isStringLiteral(redirectTo) ? redirectTo.value : undefined,
+          guards: guards.length > 0 ? guards : undefined,
+        },
+        ...(t.isArrayExpression(children) ? this.getAngularRoutes(children, file, fullPath) : []),
+      ];
+    });
+  }
+
+  // () => import('./admin/admin.routes').then((m) => m.routes), or a string in older versions
+  private getLazyImport(node: t.Node): string | undefined {
+    if (t.isStringLiteral(node)) {
+      return node.value;
+    }
+    if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+      return this.getLazyImport(node.body);
+    }
+    if (t.isCallExpression(node)) {
+      if (t.isImport(node.callee) && t.isStringLiteral(node.arguments[0])) {
+        return node.arguments[0].value;
+      }
+      return t.isMemberExpression(node.callee) ? this.getLazyImport(node.callee.object) : undefined;
+    }
+    return undefined;
+  }
+
+  private getDecoratorCall(node: t.Node, name: string): t.CallExpression | undefined {
+    const decorators = 'decorators' in node ? node.decorators : undefined;
+    const decorator = decorators?.find(
+      (candidate) =>
+        t.isCallExpression(candidate.expression) &&
+        t.isIdentifier(candidate.expression.callee, { name }),
+    );
+    return decorator?.expression as t.CallExpression | undefined;
+  }
+
+  private getProperty(node: t.ObjectExpression, key: string): t.Node | undefined {
+    const property = node.properties.find(
+      (candidate): candidate is t.ObjectProperty =>
+        t.isObjectProperty(candidate) &&
+        !candidate.computed &&
+        (t.isIdentifier(candidate.key, { name: key }) ||
+          t.isStringLiteral(candidate.key, { value: key })),
+    );
+    return property?.value;
+  }
+
+  // Components are named after their file, e.g. UserCard for src/components/UserCard.vue
+  private getComponentFileName(filePath: string): string {
+    return filePath
+      .split('/')
+      .pop()!
+      .replace(/\.\w+$/, '');
+  }
+
+  // Props destructured from an object, followed by the members of the props type
+  private getPatternProps(id: t.Node, program: t.Program, typeArgument?: t.TSType): string[] {
+    const keys = t.isObjectPattern(id)
+      ? id.properties.flatMap((property) =>
+          t.isObjectProperty(property) && !property.computed
+            ? this.getKeyName(property.key) || []
+            : [],
+        )
+      : [];
+    const annotation =
+      (t.isIdentifier(id) || t.isObjectPattern(id)) && t.isTSTypeAnnotation(id.typeAnnotation)
+        ? id.typeAnnotation.typeAnnotation
+        : typeArgument;
+    return [...keys, ...(annotation ? this.getTypeMemberNames(annotation, program) : [])];
+  }
+
+  private getKeyName(node: t.Node): string | undefined {
+    return t.isIdentifier(node) ? node.name : t.isStringLiteral(node) ? node.value : undefined;
+  }
+
+  // ['title', 'size'] or { title: String, size: { type: Number } }
+  private getDeclaredNames(node: t.Node | undefined): string[] {
+    if (t.isObjectExpression(node)) {
+      return node.properties.flatMap((property) =>
+        (t.isObjectProperty(property) || t.isObjectMethod(property)) && !property.computed
+          ? this.getKeyName(property.key) || []
+          : [],
+      );
+    }
+    return node ? this.getStringValues(node) : [];
+  }
+
+  // Property names of a type literal, interface or intersection declared in the same file, and the
+  // event names of call signatures like (e: 'change', id: number): void
+  private getTypeMemberNames(node: t.Node, program: t.Program): string[] {
+    if (t.isTSIntersectionType(node)) {
+      return node.types.flatMap((type) => this.getTypeMemberNames(type, program));
+    }
+    if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+      const typeName = node.typeName.name;
+      const declaration = program.body
+        .map((statement) =>
+          t.isExportNamedDeclaration(statement) ? statement.declaration : statement,
+        )
+        .find(
+          (statement): statement is t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration =>
+            (t.isTSInterfaceDeclaration(statement) || t.isTSTypeAliasDeclaration(statement)) &&
+            statement.id.name === typeName,
+        );
+      if (t.isTSInterfaceDeclaration(declaration)) {
+        return this.getTypeMemberNames(t.tsTypeLiteral(declaration.body.body), program);
+      }
+      return declaration ? this.getTypeMemberNames(declaration.typeAnnotation, program) : [];
+    }
+    if (!t.isTSTypeLiteral(node)) {
+      return [];
+    }
+
+    return node.members.flatMap((member) => {
+      if (t.isTSPropertySignature(member) && !member.computed) {
+        return this.getKeyName(member.key) || [];
+      }
+      const event = t.isTSCallSignatureDeclaration(member) ? member.parameters[0] : undefined;
+      const eventType =
+        t.isIdentifier(event) && t.isTSTypeAnnotation(event.typeAnnotation)
+          ? event.typeAnnotation.typeAnnotation
+          : undefined;
+      return (t.isTSUnionType(eventType) ? eventType.types : [eventType]).flatMap((type) =>
+        t.isTSLiteralType(type) && t.isStringLiteral(type.literal) ? [type.literal.value] : [],
+      );
+    });
+  }
+
+  private getStringValues(node: t.Node): string[] {
+    if (t.isStringLiteral(node)) {
+      return [node.value];
+    }
+    if (t.isArrayExpression(node)) {
+      return node.elements.flatMap((element) =>
+        t.isStringLiteral(element) ? [element.value] : [],
+      );
+    }
+    return [];
+  }
+
+  // '/about', ['/about', '/dashboard/:path*'] or objects like { source: '/api/:path*', has: [...] }
+  private getMatcherPaths(node: t.Node): string[] {
+    return (t.isArrayExpression(node) ? node.elements : [node]).flatMap((element) => {
+      const source =
+        element && t.isObjectExpression(element) ? this.getProperty(element, 'source') : element;
+      return source && t.isStringLiteral(source) ? [source.value] : [];
+    });
+  }
+
+  // '1', ['1', '2'] or VERSION_NEUTRAL, which serves the route without a version
+  private getVersions(node: t.Node): string[] {
+    return t.isIdentifier(node, { name: 'VERSION_NEUTRAL' }) ? [] : this.getStringValues(node);
+  }
+
+  // React only treats capitalized functions as components, lowercase JSX tags are HTML elements
+  private isComponentName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  }
+
+  // Whether the function itself, not a function nested in it, returns JSX
+  private returnsJSX(path: NodePath<t.Function>): boolean {
+    const { body } = path.node;
+    if (!t.isBlockStatement(body)) {
+      return this.isJSX(body);
+    }
+
+    let found = false;
+    path.traverse({
+      Function: (inner) => inner.skip(),
+      ReturnStatement: (inner) => {
+        if (inner.node.argument && this.isJSX(inner.node.argument)) {
+          found = true;
+        }
+      },
+    });
+    return found;
+  }
+
+  // <div />, <></>, (<div />), loading ? <Spinner /> : <List /> and user && <Profile />
+  private isJSX(node: t.Node): boolean {
+    if (t.isParenthesizedExpression(node)) {
+      return this.isJSX(node.expression);
+    }
+    if (t.isConditionalExpression(node)) {
+      return this.isJSX(node.consequent) || this.isJSX(node.alternate);
+    }
+    if (t.isLogicalExpression(node)) {
+      return this.isJSX(node.left) || this.isJSX(node.right);
+    }
+    return t.isJSXElement(node) || t.isJSXFragment(node);
+  }
+
+  // The function inside memo(), forwardRef() and React.memo(React.forwardRef()), with the props
+  // type given to forwardRef<Ref, Props>()
+  private getWrappedFunction(
+    path: NodePath<t.Node | null | undefined>,
+  ): { path: NodePath<t.Function>; propsType?: t.TSType } | undefined {
+    if (path.isArrowFunctionExpression() || path.isFunctionExpression()) {
+      return { path };
+    }
+    if (!path.isCallExpression()) {
+      return undefined;
+    }
+
+    const wrapper = this.getCalleeName(path.node.callee);
+    if (wrapper !== 'memo' && wrapper !== 'forwardRef') {
+      return undefined;
+    }
+    const inner = this.getWrappedFunction(path.get('arguments')[0]);
+    return inner
+      ? {
+          path: inner.path,
+          propsType:
+            inner.propsType ||
+            (wrapper === 'forwardRef' ? path.node.typeParameters?.params[1] : undefined),
+        }
+      : undefined;
+  }
+
+  // useState and React.useState are both useState
+  private getCalleeName(callee: t.Node): string | undefined {
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+      return callee.property.name;
+    }
+    return t.isIdentifier(callee) ? callee.name : undefined;
+  }
+
+  // Props of a function component from its first parameter and the props type
+  private getParamProps(node: t.Function, program: t.Program, propsType?: t.TSType): string[] {
+    const [param] = node.params;
+    if (!param) {
+      return [];
+    }
+    // ({ size = 'sm' } = {}) => ...
+    return this.getPatternProps(
+      t.isAssignmentPattern(param) ? param.left : param,
+      program,
+      propsType,
     );
   }
 
+  // Hooks, contexts and child components used by a function or class component
+  private getReactComponent(
+    name: string,
+    filePath: string,
+    line: number,
+    path: NodePath<t.Function | t.Class>,
+    props: string[],
+  ): ComponentInfo {
+    const hooks: string[] = [];
+    const provides: string[] = [];
+    const consumes: string[] = [];
+    const children: string[] = [];
+
+    // static contextType = ThemeContext
+    if (path.isClass()) {
+      path.node.body.body.forEach((member) => {
+        if (
+          t.isClassProperty(member) &&
+          member.static &&
+          t.isIdentifier(member.key, { name: 'contextType' }) &&
+          t.isIdentifier(member.value)
+        ) {
+          consumes.push(member.value.name);
+        }
+      });
+    }
+
+    path.traverse({
+      CallExpression: (inner) => {
+        const callee = this.getCalleeName(inner.node.callee);
+        const context = inner.node.arguments[0];
+        if (!callee) {
+          return;
+        }
+        // useContext(ThemeContext) and React 19 use(ThemeContext), use() also unwraps promises
+        if (
+          t.isIdentifier(context) &&
+          (callee === 'useContext' || (callee === 'use' && context.name.endsWith('Context')))
+        ) {
+          consumes.push(context.name);
+        }
+        if (/^use[A-Z0-9]/.test(callee)) {
+          hooks.push(callee);
+        }
+      },
+
+      JSXOpeningElement: (inner) => {
+        const tag = this.getJSXName(inner.node.name);
+        if (!tag || !this.isComponentName(tag) || tag === 'Fragment' || tag === 'React.Fragment') {
+          return;
+        }
+        // <ThemeContext.Provider>, <ThemeContext.Consumer> and React 19 <ThemeContext value={...}>
+        if (tag.endsWith('.Provider') || (!tag.includes('.') && tag.endsWith('Context'))) {
+          provides.push(tag.replace(/\.Provider$/, ''));
+        } else if (tag.endsWith('.Consumer')) {
+          consumes.push(tag.replace(/\.Consumer$/, ''));
+        } else {
+          children.push(tag);
+        }
+      },
+    });
+
+    return {
+      name,
+      file: filePath,
+      line,
+      props: [...new Set(props)],
+      hooks: [...new Set(hooks)],
+      provides: [...new Set(provides)],
+      consumes: [...new Set(consumes)],
+      children: [...new Set(children)],
+    };
+  }
+
+  // <Card />, <Layouts.Main /> and <ThemeContext.Provider>, undefined for <svg:rect />
+  private getJSXName(name: t.JSXOpeningElement['name']): string | undefined {
+    if (t.isJSXIdentifier(name)) {
+      return name.name;
+    }
+    if (t.isJSXMemberExpression(name)) {
+      const object = this.getJSXName(name.object);
+      return object ? `${object}.${name.property.name}` : undefined;
+    }
+    return undefined;
+  }
+
   private extractNextJSRoutePath(filePath: string): string {
     // Next.js API routes can be in:
     // - app/api/[route]/route.ts (App Router)
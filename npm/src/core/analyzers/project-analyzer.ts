@@ -1,10 +1,16 @@
 import { readFile, access, readdir, stat } from 'fs/promises';
-import { join, basename } from 'path';
+import { join, basename, dirname, relative, sep } from 'path';
 
 import { FileCollector } from '../../utils/file-collector.js';
 
 import type { ParsemeConfig } from '../config.js';
-import type { ProjectInfo, ProjectCategory } from '../types.js';
+import type { ProjectInfo, ProjectCategory, FileStats, PathAliases } from '../types.js';
+
+interface TsconfigCompilerOptions {
+  baseUrl?: string; // Absolute
+  paths?: Record<string, string[]>;
+  pathsBase?: string; // Absolute directory the paths targets are relative to
+}
 
 export class ProjectAnalyzer {
   private readonly fileCollector: FileCollector;
@@ -32,6 +38,7 @@ export class ProjectAnalyzer {
         scripts: packageJson.scripts || {},
         entryPoints: this.detectEntryPoints(packageJson),
         outputTargets: this.detectOutputTargets(packageJson),
+        pathAliases: await this.detectPathAliases(rootDir),
       };
     } catch {
       // No package.json found, analyze directory structure
@@ -45,6 +52,7 @@ export class ProjectAnalyzer {
         scripts: {},
         entryPoints: [],
         outputTargets: [],
+        pathAliases: await this.detectPathAliases(rootDir),
       };
     }
   }
@@ -68,6 +76,129 @@ export class ProjectAnalyzer {
     }
   }
 
+  private async detectPathAliases(rootDir: string): Promise<PathAliases | undefined> {
+    for (const configFile of ['tsconfig.json', 'jsconfig.json']) {
+      const options = await this.loadCompilerOptions(join(rootDir, configFile), rootDir, []);
+      if (!options) {
+        continue;
+      }
+
+      // Aliases only make sense relative to the project, so report them with posix paths
+      const toProjectPath = (path: string): string =>
+        relative(rootDir, path).split(sep).join('/') || '.';
+      const paths: Record<string, string[]> = {};
+      Object.entries(options.paths || {}).forEach(([pattern, targets]) => {
+        paths[pattern] = targets.map((target) => toProjectPath(join(options.pathsBase!, target)));
+      });
+
+      if (!options.baseUrl && Object.keys(paths).length === 0) {
+        return undefined;
+      }
+
+      return {
+        baseUrl: options.baseUrl ? toProjectPath(options.baseUrl) : undefined,
+        paths,
+      };
+    }
+
+    return undefined;
+  }
+
+  private async loadCompilerOptions(
+    configPath: string,
+    rootDir: string,
+    visited: string[],
+  ): Promise<TsconfigCompilerOptions | undefined> {
+    if (visited.includes(configPath)) {
+      return undefined; // Circular extends
+    }
+
+    let config: { extends?: string | string[]; compilerOptions?: Record<string, unknown> };
+    try {
+      config = this.parseJsonc(await readFile(configPath, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+
+    // Later entries in extends override earlier ones, and the config itself overrides them all
+    const bases = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+    let options: TsconfigCompilerOptions = {};
+    for (const base of bases) {
+      const basePath = this.resolveExtendsPath(base, configPath, rootDir);
+      const baseOptions = await this.loadCompilerOptions(basePath, rootDir, [
+        ...visited,
+        configPath,
+      ]);
+      options = { ...options, ...baseOptions };
+    }
+
+    const configDir = dirname(configPath);
+    const compilerOptions = config.compilerOptions || {};
+    if (typeof compilerOptions.baseUrl === 'string') {
+      options.baseUrl = join(configDir, compilerOptions.baseUrl);
+    }
+    if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+      options.paths = compilerOptions.paths as Record<string, string[]>;
+      options.pathsBase = configDir;
+    }
+    // Paths are relative to baseUrl when set, otherwise to the config that declares them
+    if (options.paths && options.baseUrl) {
+      options.pathsBase = options.baseUrl;
+    }
+
+    return options;
+  }
+
+  private resolveExtendsPath(specifier: string, configPath: string, rootDir: string): string {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const path = join(dirname(configPath), specifier);
+      return path.endsWith('.json') ? path : `${path}.json`;
+    }
+
+    // Shared configs from packages, e.g. "@tsconfig/node-lts/tsconfig.json"
+    const path = join(rootDir, 'node_modules', specifier);
+    return path.endsWith('.json') ? path : join(path, 'tsconfig.json');
+  }
+
+  /**
+   * Parse JSON with comments and trailing commas, as allowed in tsconfig.json
+   */
+  private parseJsonc<T>(content: string): T {
+    let json = '';
+    let inString = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inString) {
+        json += char;
+        if (char === '\\') {
+          json += content[++i] ?? '';
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+        json += char;
+      } else if (char === '/' && content[i + 1] === '/') {
+        while (i < content.length && content[i] !== '\n') {
+          i++;
+        }
+        json += '\n';
+      } else if (char === '/' && content[i + 1] === '*') {
+        i = content.indexOf('*/', i + 2);
+        if (i === -1) {
+          break;
+        }
+        i++;
+      } else {
+        json += char;
+      }
+    }
+
+    return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+  }
+
   private async detectPackageManager(rootDir: string): Promise<'npm' | 'yarn' | 'pnpm' | 'bun'> {
     const lockFiles = {
       'pnpm-lock.yaml': 'pnpm',
@@ -192,16 +323,22 @@ export class ProjectAnalyzer {
     if (packageJson.browser && typeof packageJson.browser === 'string') {
       entryPoints.push(packageJson.browser);
     }
+    if (packageJson.types && typeof packageJson.types === 'string') {
+      entryPoints.push(packageJson.types);
+    }
+    if (packageJson.typings && typeof packageJson.typings === 'string') {
+      entryPoints.push(packageJson.typings);
+    }
     if (packageJson.exports) {
-      if (typeof packageJson.exports === 'string') {
-        entryPoints.push(packageJson.exports);
-      } else if (typeof packageJson.exports === 'object') {
-        Object.values(packageJson.exports).forEach((exp) => {
-          if (typeof exp === 'string') {
-            entryPoints.push(exp);
-          }
-        });
-      }
+      // Subpath and condition maps nest, e.g. { ".": { "types": ..., "default": ... } }
+      const collectExports = (exp: unknown): void => {
+        if (typeof exp === 'string') {
+          entryPoints.push(exp);
+        } else if (exp && typeof exp === 'object') {
+          Object.values(exp).forEach(collectExports);
+        }
+      };
+      collectExports(packageJson.exports);
     }
 
     return [...new Set(entryPoints)]; // Remove duplicates
@@ -247,4 +384,8 @@ export class ProjectAnalyzer {
     const result = await this.fileCollector.getAllProjectFiles(rootDir);
     return result.files;
   }
+
+  async getFileStats(rootDir: string, files: string[]): Promise<Record<string, FileStats>> {
+    return this.fileCollector.getFileStats(rootDir, files);
+  }
 }
@@ -0,0 +1,182 @@
+import { ModuleResolver } from './module-resolver.js';
+import { joinRoutePath } from '../../utils/route-path.js';
+
+import type {
+  EndpointInfo,
+  FileAnalysis,
+  NestAppInfo,
+  PathAliases,
+  RouterMount,
+} from '../types.js';
+
+// Path and middleware a router is mounted under, e.g. /api/users behind auth
+interface MountPrefix {
+  path: string;
+  middleware: string[];
+}
+
+export class RouteAnalyzer {
+  /**
+   * Apply routing setup that spans files to the routes detected in each file: Express routers
+   * mounted with app.use() and the NestJS global prefix and URI versioning configured in main.ts.
+   * Returns new analyses and leaves the input untouched, so it can be resolved again after files
+   * change.
+   */
+  resolve(
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+    pathAliases?: PathAliases,
+  ): FileAnalysis[] {
+    const nestApp: NestAppInfo = Object.assign(
+      {},
+      ...fileAnalyses.map((file) => file.nestApp ?? {}),
+    );
+    const mountPrefixes = this.getMountPrefixes(fileAnalyses, allFiles, pathAliases);
+    if (!nestApp.globalPrefix && !nestApp.versioning && mountPrefixes.size === 0) {
+      return fileAnalyses;
+    }
+
+    return fileAnalyses.map((file) =>
+      file.routes && file.routes.length > 0
+        ? {
+            ...file,
+            routes: file.routes.flatMap((route) =>
+              route.controller
+                ? this.resolveNestRoute(route, nestApp)
+                : this.resolveMountedRoute(
+                    route,
+                    mountPrefixes.get(`${file.path}#${route.router}`),
+                  ),
+            ),
+          }
+        : file,
+    );
+  }
+
+  // Every path each router is reachable under, keyed by "file#localName"
+  private getMountPrefixes(
+    fileAnalyses: FileAnalysis[],
+    allFiles: string[],
+    pathAliases?: PathAliases,
+  ): Map<string, MountPrefix[]> {
+    const resolver = new ModuleResolver(
+      [...allFiles, ...fileAnalyses.map((file) => file.path)],
+      pathAliases,
+    );
+    const analyses = new Map(fileAnalyses.map((file) => [file.path, file]));
+    const mountsByTarget = new Map<string, (RouterMount & { parent: string })[]>();
+
+    fileAnalyses.forEach((file) => {
+      (file.mounts || []).forEach((mount) => {
+        const target = this.getMountTarget(mount, file.path, analyses, resolver);
+        if (target) {
+          const parent = `${file.path}#${mount.router}`;
+          mountsByTarget.set(target, [...(mountsByTarget.get(target) || []), { ...mount, parent }]);
+        }
+      });
+    });
+
+    const prefixes = new Map<string, MountPrefix[]>();
+    const visiting = new Set<string>();
+    const getPrefixes = (router: string): MountPrefix[] => {
+      const mounts = mountsByTarget.get(router);
+      // Routers that are not mounted anywhere (or mounted in a loop) are the root
+      if (!mounts || visiting.has(router)) {
+        return [{ path: '', middleware: [] }];
+      }
+      if (!prefixes.has(router)) {
+        visiting.add(router);
+        prefixes.set(
+          router,
+          mounts.flatMap((mount) =>
+            getPrefixes(mount.parent).map((prefix) => ({
+              path: joinRoutePath(prefix.path, mount.path),
+              middleware: [...prefix.middleware, ...mount.middleware],
+            })),
+          ),
+        );
+        visiting.delete(router);
+      }
+      return prefixes.get(router)!;
+    };
+
+    mountsByTarget.forEach((_mounts, router) => getPrefixes(router));
+    return prefixes;
+  }
+
+  // Mounted routers are matched by the file they are imported from and the local they export
+  private getMountTarget(
+    mount: RouterMount,
+    file: string,
+    analyses: Map<string, FileAnalysis>,
+    resolver: ModuleResolver,
+  ): string | undefined {
+    if (!mount.source) {
+      return `${file}#${mount.target}`;
+    }
+
+    const resolved = resolver.resolve(mount.source, file);
+    if (resolved.kind !== 'file') {
+      return undefined;
+    }
+
+    const local = analyses.get(resolved.path)?.routerExports?.[mount.importedName ?? 'default'];
+    return local ? `${resolved.path}#${local}` : undefined;
+  }
+
+  private resolveMountedRoute(route: EndpointInfo, prefixes?: MountPrefix[]): EndpointInfo[] {
+    if (!prefixes) {
+      return [route];
+    }
+
+    return prefixes.map((prefix) => {
+      const middleware = [...prefix.middleware, ...(route.middleware || [])];
+      return this.createRoute(route, joinRoutePath(prefix.path, route.path), {
+        middleware: middleware.length > 0 ? middleware : undefined,
+        versions: route.versions,
+      });
+    });
+  }
+
+  // Nest builds paths as /<global prefix>/<version>/<controller prefix>/<method path>
+  private resolveNestRoute(route: EndpointInfo, nestApp: NestAppInfo): EndpointInfo[] {
+    const globalPrefix = nestApp.globalPrefix ?? '';
+    const versions = nestApp.versioning
+      ? (route.versions ?? nestApp.versioning.defaultVersion ?? [])
+      : [];
+    if (versions.length === 0) {
+      return [this.createRoute(route, joinRoutePath(globalPrefix, route.path))];
+    }
+
+    // A route serving several versions is registered once per version
+    return versions.map((version) =>
+      this.createRoute(
+        route,
+        joinRoutePath(globalPrefix, `${nestApp.versioning!.prefix}${version}`, route.path),
+        { middleware: route.middleware, versions: [version] },
+      ),
+    );
+  }
+
+  // Keys are listed in a fixed order, so the JSON output does not depend on which optional
+  // fields the input route had
+  private createRoute(
+    route: EndpointInfo,
+    path: string,
+    { middleware, versions }: Pick<EndpointInfo, 'middleware' | 'versions'> = route,
+  ): EndpointInfo {
+    return {
+      method: route.method,
+      path,
+      handler: route.handler,
+      middleware,
+      schema: route.schema,
+      file: route.file,
+      line: route.line,
+      decorator: route.decorator,
+      controller: route.controller,
+      versions,
+      router: route.router,
+    };
+  }
+}
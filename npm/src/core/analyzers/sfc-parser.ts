@@ -0,0 +1,199 @@
+// A single-file component split into the script the Babel pipeline analyzes and its markup
+export interface SfcDescriptor {
+  script: string; // Script blocks in place, everything else blanked so line numbers match the file
+  ext: string; // Extension the script is parsed as, from the lang attribute
+  components: string[]; // Components used in the template, in order of first use
+}
+
+interface SfcBlock {
+  tag: string;
+  attributes: string;
+  start: number; // Offset of the block content
+  end: number;
+}
+
+export class SfcParser {
+  // Components Vue provides itself, they are not children defined by the project
+  private readonly vueBuiltIns = [
+    'Transition',
+    'TransitionGroup',
+    'KeepAlive',
+    'Teleport',
+    'Suspense',
+  ];
+
+  // Astro's <Fragment> only groups elements
+  private readonly astroBuiltIns = ['Fragment'];
+
+  /**
+   * Split a Vue, Svelte or Astro component into its script and the components used in its markup.
+   * Returns undefined for other files.
+   */
+  parse(content: string, ext: string): SfcDescriptor | undefined {
+    if (ext === '.vue') {
+      return this.parseVue(content);
+    }
+    if (ext === '.svelte') {
+      return this.parseSvelte(content);
+    }
+    if (ext === '.astro') {
+      return this.parseAstro(content);
+    }
+    return undefined;
+  }
+
+  /**
+   * Split a Vue single-file component into its <script> and <script setup> blocks and the
+   * components used in its <template>.
+   */
+  parseVue(content: string): SfcDescriptor {
+    const blocks = this.getBlocks(content);
+    const scripts = blocks.filter(
+      (block) => block.tag === 'script' && !/\bsrc\s*=/.test(block.attributes),
+    );
+    const template = blocks.find((block) => block.tag === 'template');
+
+    return {
+      script: this.maskOutside(content, scripts),
+      ext: this.getScriptExt(scripts),
+      components: template
+        ? this.getComponentTags(content.slice(template.start, template.end), this.vueBuiltIns, true)
+        : [],
+    };
+  }
+
+  /**
+   * Split a Svelte component into its instance and module scripts and the components used in its
+   * markup, which is everything outside the script and style blocks.
+   */
+  parseSvelte(content: string): SfcDescriptor {
+    const blocks = this.getBlocks(content).filter((block) => block.tag !== 'template');
+    const scripts = blocks.filter((block) => block.tag === 'script');
+
+    return {
+      script: this.maskOutside(content, scripts),
+      ext: this.getScriptExt(scripts),
+      components: this.getComponentTags(this.getMarkup(content, blocks), [], false),
+    };
+  }
+
+  /**
+   * Split an Astro component into its frontmatter script (always TypeScript) and the components
+   * used in the template below it.
+   */
+  parseAstro(content: string): SfcDescriptor {
+    const frontmatter = content.match(/^(\s*---\r?\n)([\s\S]*?)\r?\n---/);
+    const script: SfcBlock | undefined = frontmatter
+      ? {
+          tag: 'frontmatter',
+          attributes: '',
+          start: frontmatter[1].length,
+          end: frontmatter[1].length + frontmatter[2].length,
+        }
+      : undefined;
+    const template = content.slice(frontmatter ? frontmatter[0].length : 0);
+
+    return {
+      script: this.maskOutside(content, script ? [script] : []),
+      ext: '.ts',
+      components: this.getComponentTags(
+        this.getMarkup(
+          template,
+          this.getBlocks(template).filter((block) => block.tag !== 'template'),
+        ),
+        this.astroBuiltIns,
+        false,
+      ),
+    };
+  }
+
+  // Top-level blocks only, so <template> elements nested in the template stay part of it
+  private getBlocks(content: string): SfcBlock[] {
+    const blocks: SfcBlock[] = [];
+    const openTag = /<(template|script|style)\b([^>]*)>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = openTag.exec(content))) {
+      const [, tag, attributes] = match;
+      const start = match.index + match[0].length;
+      const end =
+        tag === 'template'
+          ? this.findTemplateEnd(content, start)
+          : content.indexOf(`</${tag}>`, start);
+      if (end === -1) {
+        break;
+      }
+
+      blocks.push({ tag, attributes, start, end });
+      openTag.lastIndex = end;
+    }
+
+    return blocks;
+  }
+
+  private findTemplateEnd(content: string, start: number): number {
+    const tags = /<template\b[^>]*?(\/)?>|<\/template>/g;
+    tags.lastIndex = start;
+    let depth = 1;
+    let match: RegExpExecArray | null;
+
+    while ((match = tags.exec(content))) {
+      if (match[0] === '</template>') {
+        depth--;
+        if (depth === 0) {
+          return match.index;
+        }
+      } else if (!match[1]) {
+        depth++;
+      }
+    }
+    return -1;
+  }
+
+  private maskOutside(content: string, blocks: SfcBlock[]): string {
+    let masked = '';
+    let offset = 0;
+    for (const block of blocks) {
+      masked += content.slice(offset, block.start).replace(/[^\n]/g, '');
+      masked += content.slice(block.start, block.end);
+      offset = block.end;
+    }
+    return masked + content.slice(offset).replace(/[^\n]/g, '');
+  }
+
+  private getMarkup(content: string, blocks: SfcBlock[]): string {
+    let markup = '';
+    let offset = 0;
+    for (const block of blocks) {
+      markup += content.slice(offset, block.start);
+      offset = block.end;
+    }
+    return markup + content.slice(offset);
+  }
+
+  private getScriptExt(scripts: SfcBlock[]): string {
+    const lang = scripts
+      .map((block) => block.attributes.match(/\blang\s*=\s*["']([\w]+)["']/)?.[1])
+      .find(Boolean);
+    return lang === 'ts' || lang === 'tsx' || lang === 'jsx' ? `.${lang}` : '.js';
+  }
+
+  // Components start with a capital letter, lowercase tags are HTML elements. Vue also resolves
+  // <user-card> to the UserCard component, elsewhere such tags are custom elements.
+  private getComponentTags(template: string, builtIns: string[], kebabCase: boolean): string[] {
+    const names = [...template.matchAll(/<([A-Za-z][\w.-]*)/g)]
+      .map((match) => match[1])
+      .filter((tag) => /^[A-Z]/.test(tag) || (kebabCase && tag.includes('-')))
+      .map((tag) =>
+        tag.includes('-')
+          ? tag
+              .split('-')
+              .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+              .join('')
+          : tag,
+      )
+      .filter((name) => !builtIns.includes(name));
+
+    return [...new Set(names)];
+  }
+}
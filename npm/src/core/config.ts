@@ -1,5 +1,6 @@
 import { existsSync } from 'fs';
 import { readFile, writeFile } from 'fs/promises';
+import { availableParallelism } from 'os';
 import { join, extname } from 'path';
 
 import type { ParsemeConfigFile } from './types.js';
@@ -121,10 +122,10 @@ export class ParsemeConfig {
 
   private mergeWithDefaults(config: Partial<ParsemeConfigFile>): ParsemeConfigFile {
     const rootDir = config.rootDir || process.cwd();
-    const supportedFileTypes = ['ts', 'tsx', 'js', 'jsx'];
+    const supportedFileTypes = ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte', 'astro'];
 
     // Validate analyzeFileTypes
-    const fileTypes = config.analyzeFileTypes || ['ts', 'tsx', 'js', 'jsx'];
+    const fileTypes = config.analyzeFileTypes || supportedFileTypes;
     const invalidTypes = fileTypes.filter((type: string) => !supportedFileTypes.includes(type));
     if (invalidTypes.length > 0) {
       throw new Error(
@@ -132,6 +133,12 @@ export class ParsemeConfig {
       );
     }
 
+    // Validate concurrency
+    const concurrency = config.concurrency ?? availableParallelism();
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${concurrency}. Must be a positive integer`);
+    }
+
     return {
       // Output
       outputPath: config.outputPath || 'PARSEME.md',
@@ -142,6 +149,8 @@ export class ParsemeConfig {
       maxDepth: config.maxDepth || 10,
       excludePatterns: this.mergeExcludePatterns(config.excludePatterns, rootDir),
       analyzeFileTypes: fileTypes,
+      cache: config.cache ?? true,
+      concurrency,
 
       // Git
       includeGitInfo: config.includeGitInfo ?? true,
@@ -9,12 +9,45 @@ import type {
   GeneratorOptions,
   RouteInfo,
   FrameworkInfo,
+  ParsemeConfigFile,
+  FileStats,
+  DependencyGraph,
+  DependencyCycle,
+  TracedExport,
+  ApiEntryPoint,
+  PageMap,
+  AngularInfo,
 } from './types.js';
 
-interface BuildContext {
+type Sections = NonNullable<ParsemeConfigFile['sections']>;
+
+// Optional context files that are emitted, so PARSEME.md only links to files that exist
+interface EmittedFiles {
+  routes: boolean;
+  pages: boolean;
+  dependencies: boolean;
+  cycles: DependencyCycle[];
+  api: boolean;
+  modules: boolean;
+  angular: boolean;
+  git: boolean;
+}
+
+interface SortableFile {
+  path: string;
+  type?: FileAnalysis['type'];
+}
+
+export interface BuildContext {
   projectInfo: ProjectInfo;
   fileAnalyses: FileAnalysis[];
   allFiles: string[];
+  dependencyGraph?: DependencyGraph;
+  dependencyCycles?: DependencyCycle[];
+  reExports?: Record<string, TracedExport[]>; // Traced re-exports, keyed by re-exporting file
+  apiSurface?: ApiEntryPoint[];
+  pages?: PageMap;
+  fileStats?: Record<string, FileStats>;
   gitInfo?: GitInfo | null;
   options: GeneratorOptions;
   contextDir?: string;
@@ -22,6 +55,18 @@ interface BuildContext {
 }
 
 export class ContextBuilder {
+  // Order used when sorting or grouping files by their detected type
+  private readonly typeOrder: FileAnalysis['type'][] = [
+    'route',
+    'middleware',
+    'service',
+    'model',
+    'component',
+    'config',
+    'utility',
+    'test',
+  ];
+
   constructor(private readonly config: ParsemeConfig) {}
 
   build(context: BuildContext): ContextOutput {
@@ -29,7 +74,18 @@ export class ContextBuilder {
   }
 
   private buildMultiFile(context: BuildContext): ContextOutput {
-    const { projectInfo, fileAnalyses, gitInfo, contextDir, outputPath } = context;
+    const {
+      projectInfo,
+      fileAnalyses,
+      dependencyGraph,
+      dependencyCycles,
+      apiSurface,
+      pages,
+      fileStats,
+      gitInfo,
+      contextDir,
+      outputPath,
+    } = context;
 
     // Files are now pre-limited in their respective analyzers, so no need to limit here
 
@@ -60,36 +116,106 @@ export class ContextBuilder {
         ? fileRoutes
         : [];
     });
-    const hasRoutes = routes.length > 0;
-
-    const mainContent =
-      this.buildHeader(linkPath, hasRoutes) +
-      '\n\n' +
-      this.buildProjectOverview(projectInfo) +
-      '\n\n' +
-      this.buildSummarySection(linkPath, hasRoutes) +
-      '\n\n' +
-      (gitInfo ? this.buildGitSection(gitInfo) : '');
-    const contextFiles: {
-      [key: string]: string;
-      structure: string;
-    } = {
-      structure: '',
+    const sections = this.config.get().sections ?? {};
+    const hasRoutes = routes.length > 0 && sections.routes !== false;
+    const hasPages =
+      !!pages && (pages.pages.length > 0 || !!pages.middleware) && sections.routes !== false;
+    const hasGit = !!gitInfo && sections.git !== false;
+    const hasDependencyGraph =
+      !!dependencyGraph &&
+      Object.keys(dependencyGraph).length > 0 &&
+      sections.dependencies !== false;
+    const cycles = hasDependencyGraph ? dependencyCycles || [] : [];
+    const hasApi = !!apiSurface && apiSurface.length > 0 && sections.architecture !== false;
+    const modules = fileAnalyses.flatMap((f) => f.modules || []);
+    const hasModules = modules.length > 0 && sections.architecture !== false;
+    const angular: AngularInfo = {
+      components: fileAnalyses.flatMap((f) => f.angular?.components || []),
+      modules: fileAnalyses.flatMap((f) => f.angular?.modules || []),
+      services: fileAnalyses.flatMap((f) => f.angular?.services || []),
+      routes: fileAnalyses.flatMap((f) => f.angular?.routes || []),
+    };
+    const hasAngular =
+      Object.values(angular).some((list) => list.length > 0) && sections.architecture !== false;
+    const emitted: EmittedFiles = {
+      routes: hasRoutes,
+      pages: hasPages,
+      dependencies: hasDependencyGraph,
+      cycles,
+      api: hasApi,
+      modules: hasModules,
+      angular: hasAngular,
+      git: hasGit,
     };
 
+    let mainContent = this.buildHeader(linkPath, emitted, sections);
+
+    if (sections.overview !== false) {
+      mainContent +=
+        '\n\n' + this.buildProjectOverview(projectInfo, sections.dependencies !== false);
+    }
+
+    const summary = this.buildSummarySection(linkPath, emitted, sections);
+    if (summary) {
+      mainContent += '\n\n' + summary;
+    }
+
+    mainContent += '\n\n' + (hasGit ? this.buildGitSection(gitInfo) : '');
+
+    const contextFiles: { [key: string]: string } = {};
+
     // Files list (markdown) - all files in project, not just analyzed ones
-    contextFiles.files = this.buildFilesList(context.allFiles);
+    if (sections.fileStructure !== false) {
+      contextFiles.files = this.buildFilesList(context.allFiles, fileAnalyses, fileStats);
+    }
 
     // Detailed structure (JSON with AST)
-    contextFiles.structure = this.buildDetailedStructure(fileAnalyses, hasRoutes);
+    if (sections.architecture !== false) {
+      contextFiles.structure = this.buildDetailedStructure(
+        fileAnalyses,
+        hasRoutes,
+        fileStats,
+        context.reExports,
+      );
+    }
 
     // Routes documentation (only if routes exist)
     if (hasRoutes) {
       contextFiles.routes = this.buildDetailedRoutes(routes);
     }
 
+    // Frontend pages, layouts and route objects (only if any were found)
+    if (hasPages) {
+      contextFiles.pages = JSON.stringify(pages, null, 2);
+    }
+
+    // Module dependency graph (resolved imports and reverse edges)
+    if (hasDependencyGraph) {
+      contextFiles.dependencies = JSON.stringify(dependencyGraph, null, 2);
+    }
+
+    // Import cycles (only if cycles exist)
+    if (cycles.length > 0) {
+      contextFiles.cycles = JSON.stringify(cycles, null, 2);
+    }
+
+    // Public API of npm packages (only if entry points were found)
+    if (hasApi) {
+      contextFiles.api = JSON.stringify(apiSurface, null, 2);
+    }
+
+    // NestJS module structure (only if @Module classes exist)
+    if (hasModules) {
+      contextFiles.modules = JSON.stringify(modules, null, 2);
+    }
+
+    // Angular components, modules, services and routes (only if any were found)
+    if (hasAngular) {
+      contextFiles.angular = JSON.stringify(angular, null, 2);
+    }
+
     // Git information
-    if (gitInfo?.diffStat?.length && gitInfo.diffStat.length > 0) {
+    if (hasGit && gitInfo.diffStat?.length && gitInfo.diffStat.length > 0) {
       contextFiles.gitDiff = this.buildDetailedGit(gitInfo);
     }
 
@@ -99,14 +225,72 @@ export class ContextBuilder {
     };
   }
 
-  private buildHeader(linkPath: string, hasRoutes: boolean): string {
-    const routesInstructions = hasRoutes
-      ? `   - Files with routes will reference [${linkPath}/routes.json](${linkPath}/routes.json) using a $ref pattern for token efficiency
-5. For API route details, see [${linkPath}/routes.json](${linkPath}/routes.json) which contains all discovered endpoints
-6. For git tracked projects follow the instructions in the "Git Information" section of this file to validate the actuality of the provided information.
-7. Only dive deeper into specific files after reviewing this summary, that replaces the need for initial project exploration and significantly reduces token usage for project comprehension.`
-      : `5. For git tracked projects, follow the instructions in the "Git Information" section of this file to validate the actuality of the provided information.
-6. Only dive deeper into specific files after reviewing this summary, that replaces the need for initial project exploration and significantly reduces token usage for project comprehension.`;
+  private buildHeader(linkPath: string, emitted: EmittedFiles, sections: Sections): string {
+    // Instructions are numbered at the end so that disabled sections leave no gaps
+    const instructions = [
+      'Read this PARSEME.md file completely first before accessing individual project files',
+    ];
+
+    if (sections.overview !== false) {
+      instructions.push(
+        'Basic project information, script availability and dependency information provides basic understanding of code base and tech stack without checking package.json',
+      );
+    }
+    if (sections.fileStructure !== false) {
+      instructions.push(
+        `Use the provided file list [${linkPath}/files.md](${linkPath}/files.md) to see all tracked files in the project`,
+      );
+    }
+    if (sections.architecture !== false) {
+      let structureInstruction = `Utilize the structure and AST data [${linkPath}/structure.json](${linkPath}/structure.json) for code analysis without manual parsing`;
+      if (emitted.routes) {
+        structureInstruction += `\n   - Files with routes will reference [${linkPath}/routes.json](${linkPath}/routes.json) using a $ref pattern for token efficiency`;
+      }
+      instructions.push(structureInstruction);
+    }
+    if (emitted.routes) {
+      instructions.push(
+        `For API route details, see [${linkPath}/routes.json](${linkPath}/routes.json) which contains all discovered endpoints`,
+      );
+    }
+    if (emitted.pages) {
+      instructions.push(
+        `To find the page, layout and middleware files behind a URL, see [${linkPath}/pages.json](${linkPath}/pages.json)`,
+      );
+    }
+    if (emitted.api) {
+      instructions.push(
+        `The public API of this package is listed in [${linkPath}/api.json](${linkPath}/api.json) - changing any of these symbols is a breaking change for consumers`,
+      );
+    }
+    if (emitted.modules) {
+      instructions.push(
+        `To find where a provider or controller is registered and which modules can inject it, see [${linkPath}/modules.json](${linkPath}/modules.json)`,
+      );
+    }
+    if (emitted.angular) {
+      instructions.push(
+        `For Angular components, NgModules, injectable services and router configuration, see [${linkPath}/angular.json](${linkPath}/angular.json)`,
+      );
+    }
+    if (emitted.dependencies) {
+      instructions.push(
+        `Before changing a file, check [${linkPath}/dependencies.json](${linkPath}/dependencies.json) for the files it imports and the files that import it`,
+      );
+    }
+    if (emitted.cycles.length > 0) {
+      instructions.push(
+        `When moving code between files or adding imports, review the import cycles in [${linkPath}/cycles.json](${linkPath}/cycles.json) to avoid making them worse`,
+      );
+    }
+    if (emitted.git) {
+      instructions.push(
+        'For git tracked projects, follow the instructions in the "Git Information" section of this file to validate the actuality of the provided information.',
+      );
+    }
+    instructions.push(
+      'Only dive deeper into specific files after reviewing this summary, that replaces the need for initial project exploration and significantly reduces token usage for project comprehension.',
+    );
 
     return `## PARSEME - AI Agent Context
 
@@ -114,14 +298,10 @@ Auto-generated project summary optimized for AI coding agents. This file provide
 
 **Usage Instructions for AI Agents:**
 
-1. Read this PARSEME.md file completely first before accessing individual project files
-2. Basic project information, script availability and dependency information provides basic understanding of code base and tech stack without checking package.json
-3. Use the provided file list [${linkPath}/files.md](${linkPath}/files.md) to see all tracked files in the project
-4. Utilize the structure and AST data [${linkPath}/structure.json](${linkPath}/structure.json) for code analysis without manual parsing
-${routesInstructions}`;
+${instructions.map((instruction, index) => `${index + 1}. ${instruction}`).join('\n')}`;
   }
 
-  private buildProjectOverview(projectInfo: ProjectInfo): string {
+  private buildProjectOverview(projectInfo: ProjectInfo, includeDependencies: boolean): string {
     let content = `## Basic Project Information
 
 **Project:** ${projectInfo.name}${projectInfo.version ? ` v${projectInfo.version}` : ''}
@@ -138,7 +318,7 @@ ${routesInstructions}`;
     content += '\n';
 
     // Add dependencies
-    const deps = Object.keys(projectInfo.dependencies);
+    const deps = includeDependencies ? Object.keys(projectInfo.dependencies) : [];
     if (deps.length > 0) {
       content += '\n### Dependencies\n\n';
       deps.forEach((dep) => {
@@ -146,6 +326,18 @@ ${routesInstructions}`;
       });
     }
 
+    // Add module aliases so agents can map imports like "@/lib/db" to files
+    const aliases = projectInfo.pathAliases;
+    if (aliases) {
+      content += '\n### Path Aliases\n\n';
+      if (aliases.baseUrl) {
+        content += `- **baseUrl**: \`${aliases.baseUrl}\`\n`;
+      }
+      Object.entries(aliases.paths).forEach(([pattern, targets]) => {
+        content += `- \`${pattern}\` → ${targets.map((target) => `\`${target}\``).join(', ')}\n`;
+      });
+    }
+
     // Add available scripts
     if (projectInfo.scripts && Object.keys(projectInfo.scripts).length > 0) {
       content += '\n### Available Scripts\n\n';
@@ -197,36 +389,130 @@ Compare the output with the baseline in [parseme-context/gitDiff.md](parseme-con
     return base + '\n' + info;
   }
 
-  private buildSummarySection(linkPath: string, hasRoutes: boolean): string {
-    let content = `## Project Files
+  private buildSummarySection(linkPath: string, emitted: EmittedFiles, sections: Sections): string {
+    const blocks: string[] = [];
 
-A complete list of all git-tracked files in the project (excluding files matching additional exclude patterns) is available at [${linkPath}/files.md](${linkPath}/files.md). This provides a quick overview of the project structure.
+    if (sections.fileStructure !== false) {
+      blocks.push(`## Project Files
 
-## Project Structure & AST
+A complete list of all git-tracked files in the project (excluding files matching additional exclude patterns) is available at [${linkPath}/files.md](${linkPath}/files.md). This provides a quick overview of the project structure.`);
+    }
 
-Detailed structure and Abstract Syntax Tree data for all tracked files is available at [${linkPath}/structure.json](${linkPath}/structure.json). This includes file paths, types, imports, exports, functions, classes, interfaces, and routes for comprehensive code analysis without manual parsing.`;
+    if (sections.architecture !== false) {
+      blocks.push(`## Project Structure & AST
 
-    if (hasRoutes) {
-      content += `\n\n## API Routes
+Detailed structure and Abstract Syntax Tree data for all tracked files is available at [${linkPath}/structure.json](${linkPath}/structure.json). This includes file paths, types, imports, exports, functions, classes, interfaces, and routes for comprehensive code analysis without manual parsing.`);
+    }
 
-A comprehensive list of all discovered API routes is available at [${linkPath}/routes.json](${linkPath}/routes.json). This includes HTTP methods, paths, handler names, and source file locations for backend routes (Express, NestJS, and decorator-based routing).`;
+    if (emitted.routes) {
+      blocks.push(`## API Routes
+
+A comprehensive list of all discovered API routes is available at [${linkPath}/routes.json](${linkPath}/routes.json). This includes HTTP methods, paths, handler names, and source file locations for backend routes (Express, NestJS, and decorator-based routing).`);
     }
 
-    return content;
+    if (emitted.pages) {
+      blocks.push(`## Pages
+
+The frontend routes are listed at [${linkPath}/pages.json](${linkPath}/pages.json) with the URL each file renders: Next.js App Router and Pages Router files, SvelteKit \`+page\`, \`+layout\`, \`+error\` and \`+server\` files, Nuxt \`pages/\`, Remix and React Router flat routes, and React Router route objects passed to \`createBrowserRouter()\` or \`useRoutes()\`. Entries note their framework, kind (page, layout, endpoint, ...), dynamic params, route groups, server or client rendering and data loading exports. The Next.js middleware file and its \`matcher\` paths are included when the project has one.`);
+    }
+
+    if (emitted.api) {
+      blocks.push(`## Public API
+
+Every symbol reachable from the package entry points in package.json is listed at [${linkPath}/api.json](${linkPath}/api.json), grouped by entry point. Re-exports are followed to the file declaring each symbol, and each entry includes its kind, JSDoc summary and function signature or public class methods.`);
+    }
+
+    if (emitted.modules) {
+      blocks.push(`## NestJS Modules
+
+Every \`@Module()\` class is listed at [${linkPath}/modules.json](${linkPath}/modules.json) with the modules it imports and the controllers, providers and exports it declares. Global modules are marked with \`global: true\`.`);
+    }
+
+    if (emitted.angular) {
+      blocks.push(`## Angular
+
+Angular declarations are listed at [${linkPath}/angular.json](${linkPath}/angular.json): \`@Component\` classes with their selector, \`templateUrl\`, \`styleUrls\`, inputs, outputs and standalone imports, \`@NgModule\` declarations, imports, exports, providers and bootstrap components, \`@Injectable\` services with their \`providedIn\` scope, and the routes of \`Routes\` arrays with their full paths, components, lazy-loaded modules and guards. Components and services list the dependencies they inject through their constructor or \`inject()\`.`);
+    }
+
+    if (emitted.dependencies) {
+      blocks.push(`## Module Dependencies
+
+The resolved import graph of all analyzed files is available at [${linkPath}/dependencies.json](${linkPath}/dependencies.json). For each file it lists the project files it imports, the project files that import it (\`importedBy\`), files loaded lazily through \`import()\` (\`dynamicImports\` and \`dynamicImportedBy\`), files imported only for their types (\`typeImports\` and \`typeImportedBy\`), the external packages it uses and any imports that could not be resolved.`);
+    }
+
+    if (emitted.cycles.length > 0) {
+      // The shortest path is enough to locate a cycle, cycles.json lists all files involved
+      const shown = emitted.cycles.slice(0, 10).map((cycle) => `- ${cycle.path.join(' → ')}`);
+      if (emitted.cycles.length > shown.length) {
+        shown.push(`- ...and ${emitted.cycles.length - shown.length} more`);
+      }
+
+      blocks.push(`## Circular Dependencies
+
+${emitted.cycles.length} import ${emitted.cycles.length === 1 ? 'cycle was' : 'cycles were'} detected between project files. The shortest cycle of each group is listed below, and [${linkPath}/cycles.json](${linkPath}/cycles.json) contains all files involved:
+
+${shown.join('\n')}`);
+    }
+
+    return blocks.join('\n\n');
   }
 
-  private buildFilesList(allFiles: string[]): string {
+  private buildFilesList(
+    allFiles: string[],
+    fileAnalyses: FileAnalysis[],
+    fileStats?: Record<string, FileStats>,
+  ): string {
+    const style = this.config.get().style ?? {};
+    const typesByPath = new Map(fileAnalyses.map((file) => [file.path, file.type]));
+    const files = this.sortFiles(
+      allFiles.map((path) => ({ path, type: typesByPath.get(path) })),
+      fileStats,
+    );
+
+    const formatFile = (file: SortableFile): string => {
+      const stats = style.includeFileStats ? fileStats?.[file.path] : undefined;
+      return `- ${file.path}${stats ? ` (${this.formatStats(stats)})` : ''}\n`;
+    };
+
     let content = `# Project Files\n\n`;
 
-    allFiles.forEach((file) => {
-      content += `- ${file}\n`;
+    // Only group when at least one file has a detected type, otherwise everything is "other"
+    if (style.groupByType && typesByPath.size > 0) {
+      const groups = new Map<FileAnalysis['type'] | undefined, SortableFile[]>();
+      files.forEach((file) => {
+        groups.set(file.type, [...(groups.get(file.type) || []), file]);
+      });
+
+      groups.forEach((groupFiles, type) => {
+        const heading = type
+          ? `${type.charAt(0).toUpperCase()}${type.slice(1)} files`
+          : 'Other files';
+        content += `## ${heading}\n\n`;
+        groupFiles.forEach((file) => {
+          content += formatFile(file);
+        });
+        content += '\n';
+      });
+
+      return content;
+    }
+
+    files.forEach((file) => {
+      content += formatFile(file);
     });
 
     return content;
   }
 
-  private buildDetailedStructure(fileAnalyses: FileAnalysis[], hasRoutes: boolean): string {
-    const structureData = fileAnalyses.map((file) => {
+  private buildDetailedStructure(
+    fileAnalyses: FileAnalysis[],
+    hasRoutes: boolean,
+    fileStats?: Record<string, FileStats>,
+    reExports?: Record<string, TracedExport[]>,
+  ): string {
+    const style = this.config.get().style ?? {};
+
+    const structureData = this.sortFiles(fileAnalyses, fileStats).map((file) => {
       const routes = file.routes || [];
 
       // If file has routes and routes exist in the project, replace with reference instead of full route objects
@@ -239,13 +525,55 @@ A comprehensive list of all discovered API routes is available at [${linkPath}/r
             }
           : [];
 
+      // With line numbers enabled, symbols are emitted as { name, line } objects
+      const locations = style.includeLineNumbers ? file.locations : undefined;
+
       return {
         path: file.path,
         type: file.type,
-        exports: file.exports,
+        summary: file.summary,
+        stats: style.includeFileStats ? fileStats?.[file.path] : undefined,
+        exports: locations?.exports ?? file.exports,
         imports: file.imports,
-        functions: file.functions,
-        classes: file.classes,
+        dynamicImports: file.dynamicImports?.length ? file.dynamicImports : undefined,
+        typeImports: file.typeImports?.length ? file.typeImports : undefined,
+        functions: locations?.functions ?? file.functions,
+        classes: locations?.classes ?? file.classes,
+        // Props, events and children of components, their file is the entry itself
+        components: file.components?.length
+          ? file.components.map(
+              ({ name, line, props, emits, composables, hooks, provides, consumes, children }) => ({
+                name,
+                line,
+                props,
+                emits,
+                composables,
+                hooks,
+                provides,
+                consumes,
+                children,
+              }),
+            )
+          : undefined,
+        // Service classes with their methods and the constructor parameters injected by the DI container
+        services: file.services?.length
+          ? file.services.map(({ name, line, methods, dependencies }) => ({
+              name,
+              line,
+              methods,
+              dependencies,
+            }))
+          : undefined,
+        signatures: file.signatures,
+        docs: file.docs && Object.keys(file.docs).length > 0 ? file.docs : undefined,
+        barrel: file.barrel || undefined,
+        // Re-exported symbols point at their declaring file (definedIn) when it could be traced
+        reExports: reExports?.[file.path]?.map(({ name, definedIn, localName, source }) => ({
+          name,
+          source,
+          definedIn,
+          localName,
+        })),
         routes: routesData,
       };
     });
@@ -253,6 +581,42 @@ A comprehensive list of all discovered API routes is available at [${linkPath}/r
     return JSON.stringify(structureData, null, 2);
   }
 
+  private sortFiles<T extends SortableFile>(
+    files: T[],
+    fileStats?: Record<string, FileStats>,
+  ): T[] {
+    const { groupByType, sortOrder } = this.config.get().style ?? {};
+
+    // Files without a detected type (e.g. non-code files) always sort last
+    const typeRank = (file: T): number => {
+      const index = file.type ? this.typeOrder.indexOf(file.type) : -1;
+      return index === -1 ? this.typeOrder.length : index;
+    };
+    const byType = (a: T, b: T): number => typeRank(a) - typeRank(b);
+    const byPath = (a: T, b: T): number => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+    const bySize = (a: T, b: T): number =>
+      (fileStats?.[b.path]?.size ?? 0) - (fileStats?.[a.path]?.size ?? 0);
+
+    const primary = sortOrder === 'size' ? bySize : sortOrder === 'type' ? byType : byPath;
+
+    return [...files].sort(
+      (a, b) => (groupByType ? byType(a, b) : 0) || primary(a, b) || byPath(a, b),
+    );
+  }
+
+  private formatStats(stats: FileStats): string {
+    let size: string;
+    if (stats.size < 1024) {
+      size = `${stats.size} B`;
+    } else if (stats.size < 1024 * 1024) {
+      size = `${(stats.size / 1024).toFixed(1)} KB`;
+    } else {
+      size = `${(stats.size / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    return `${stats.lines} lines, ${size}`;
+  }
+
   private buildDetailedRoutes(routes: RouteInfo[]): string {
     return JSON.stringify(routes, null, 2);
   }
@@ -1,69 +1,360 @@
-import { mkdir, writeFile, rm } from 'fs/promises';
-import { join } from 'path';
+import { mkdir, readdir, readFile, writeFile, rm } from 'fs/promises';
+import { basename, join, relative } from 'path';
 
+import { ApiAnalyzer } from './analyzers/api-analyzer.js';
 import { ASTAnalyzer } from './analyzers/ast-analyzer.js';
+import { DependencyAnalyzer } from './analyzers/dependency-analyzer.js';
 import { FrameworkDetector } from './analyzers/framework-detector.js';
+import { PageAnalyzer } from './analyzers/page-analyzer.js';
 import { ProjectAnalyzer } from './analyzers/project-analyzer.js';
+import { RouteAnalyzer } from './analyzers/route-analyzer.js';
 import { ParsemeConfig } from './config.js';
-import { ContextBuilder } from './context-builder.js';
+import { ContextBuilder, type BuildContext } from './context-builder.js';
 import { GitAnalyzer } from '../utils/git.js';
 
-import type { ContextOutput, GeneratorOptions } from './types.js';
+import type {
+  CheckResult,
+  ContextOutput,
+  FileAnalysis,
+  GeneratorOptions,
+  StaleFile,
+} from './types.js';
 
 export class ParsemeGenerator {
   private readonly config: ParsemeConfig;
   private readonly projectAnalyzer: ProjectAnalyzer;
   private readonly astAnalyzer: ASTAnalyzer;
   private readonly frameworkDetector: FrameworkDetector;
+  private readonly routeAnalyzer: RouteAnalyzer;
+  private readonly dependencyAnalyzer: DependencyAnalyzer;
+  private readonly apiAnalyzer: ApiAnalyzer;
+  private readonly pageAnalyzer: PageAnalyzer;
   private readonly gitAnalyzer: GitAnalyzer;
   private readonly contextBuilder: ContextBuilder;
+  private lastBuild?: {
+    context: BuildContext;
+    paths: { outputPath: string; contextDir: string };
+    sourceAnalyses: FileAnalysis[]; // Per-file analyses before cross-file route resolution
+    parseme: string; // PARSEME.md as last built, rewritten by updateFiles() when it changes
+  };
 
   constructor(options: GeneratorOptions = {}) {
     this.config = new ParsemeConfig(options);
     this.projectAnalyzer = new ProjectAnalyzer(this.config);
     this.astAnalyzer = new ASTAnalyzer(this.config);
     this.frameworkDetector = new FrameworkDetector();
+    this.routeAnalyzer = new RouteAnalyzer();
+    this.dependencyAnalyzer = new DependencyAnalyzer();
+    this.apiAnalyzer = new ApiAnalyzer();
+    this.pageAnalyzer = new PageAnalyzer();
     this.gitAnalyzer = new GitAnalyzer();
     this.contextBuilder = new ContextBuilder(this.config);
   }
 
   async generate(outputPath?: string): Promise<ContextOutput> {
+    return this.buildOutput(outputPath);
+  }
+
+  // check() reads the analysis cache but must not write it
+  private async buildOutput(outputPath?: string, readOnlyCache = false): Promise<ContextOutput> {
     const configData = this.config.get();
 
     // Step 1: Analyze the project structure and metadata
     const projectInfo = await this.projectAnalyzer.analyze(configData.rootDir!);
 
     // Step 2: Analyze all relevant files with AST
-    const fileAnalyses = await this.astAnalyzer.analyzeProject(configData.rootDir!);
+    const sourceAnalyses = await this.astAnalyzer.analyzeProject(configData.rootDir!, {
+      readOnlyCache,
+    });
 
     // Step 3: Detect frameworks from dependencies
     projectInfo.frameworks = await this.frameworkDetector.detect(projectInfo);
 
-    // Step 4: Get all project files (for file list output)
-    const allFiles = await this.projectAnalyzer.getAllProjectFiles(configData.rootDir!);
+    // Step 4: Get all project files (for file list output), leaving out parseme's own output
+    // so that regenerating does not pick up the previous run
+    const outputPaths = this.resolveOutputPaths(outputPath);
+    const allFiles = await this.getProjectFiles(outputPaths);
+
+    // Step 5: Resolve route paths that span files, e.g. Express routers mounted with app.use()
+    // and the NestJS global prefix set in main.ts
+    const fileAnalyses = this.routeAnalyzer.resolve(
+      sourceAnalyses,
+      allFiles,
+      projectInfo.pathAliases,
+    );
+
+    // Step 6: Resolve imports into the project's module dependency graph
+    const dependencyGraph = this.dependencyAnalyzer.analyze(
+      fileAnalyses,
+      allFiles,
+      projectInfo.pathAliases,
+    );
+    const dependencyCycles = this.dependencyAnalyzer.findCycles(dependencyGraph);
+    const reExports = this.dependencyAnalyzer.traceReExports(
+      fileAnalyses,
+      allFiles,
+      projectInfo.pathAliases,
+    );
+
+    // Step 7: Collect the public API of npm packages from their entry points
+    const apiSurface = this.apiAnalyzer.analyze(projectInfo, fileAnalyses, allFiles);
+
+    // Step 8: Map frontend pages, layouts and route objects to the URLs they render
+    const pages = this.pageAnalyzer.analyze(projectInfo, fileAnalyses, allFiles);
 
-    // Step 5: Get git information if enabled
+    // Step 9: Get git information if enabled
     const gitInfo = configData.includeGitInfo
       ? await this.gitAnalyzer.analyze(configData.rootDir!)
       : null;
 
+    // Step 10: Collect file statistics if the output style needs them
+    const style = configData.style ?? {};
+    const fileStats =
+      style.includeFileStats || style.sortOrder === 'size'
+        ? await this.projectAnalyzer.getFileStats(configData.rootDir!, allFiles)
+        : undefined;
+
     // Calculate final output path for link generation
     const finalOutputPath =
       outputPath || configData.outputPath || join(configData.rootDir!, 'PARSEME.md');
 
-    // Step 6: Build the context output
-    return this.contextBuilder.build({
+    // Step 11: Build the context output
+    const buildContext: BuildContext = {
       projectInfo,
       fileAnalyses,
       allFiles,
+      dependencyGraph,
+      dependencyCycles,
+      reExports,
+      apiSurface,
+      pages,
+      fileStats,
       gitInfo,
       options: configData,
       contextDir: configData.contextDir,
       outputPath: finalOutputPath,
-    });
+    };
+
+    const output = this.contextBuilder.build(buildContext);
+
+    // Keep the inputs around so updateFiles() can rebuild without a full analysis
+    this.lastBuild = {
+      context: buildContext,
+      paths: outputPaths,
+      sourceAnalyses,
+      parseme: output.parseme,
+    };
+
+    return output;
   }
 
   async generateToFile(outputPath?: string, contextDir?: string): Promise<void> {
+    const paths = this.resolveOutputPaths(outputPath, contextDir);
+    const context = await this.generate(paths.outputPath);
+
+    // Clear the directory if it exists, then recreate it
+    await rm(paths.contextDir, { recursive: true, force: true });
+    await mkdir(paths.contextDir, { recursive: true });
+
+    for (const [filePath, content] of Object.entries(this.getOutputFiles(context, paths))) {
+      await writeFile(filePath, content);
+    }
+  }
+
+  /**
+   * Regenerate the context in memory and compare it against PARSEME.md and the context directory
+   * on disk without writing anything. Git information is left out of the comparison, committing
+   * the generated files moves HEAD and would otherwise make them stale right away.
+   */
+  async check(outputPath?: string, contextDir?: string): Promise<CheckResult> {
+    const configData = this.config.get();
+    const paths = this.resolveOutputPaths(outputPath, contextDir);
+    const context = await this.buildOutput(paths.outputPath, true);
+    const expectedFiles = this.getOutputFiles(context, paths);
+    const gitDiffPath = join(paths.contextDir, this.getContextFileName('gitDiff'));
+    const staleFiles: StaleFile[] = [];
+
+    for (const [filePath, content] of Object.entries(expectedFiles)) {
+      if (filePath === gitDiffPath) {
+        continue;
+      }
+
+      let existing: string;
+      try {
+        existing = await readFile(filePath, 'utf-8');
+      } catch {
+        staleFiles.push({ path: relative(configData.rootDir!, filePath), status: 'missing' });
+        continue;
+      }
+      if (this.withoutGitSection(existing) !== this.withoutGitSection(content)) {
+        staleFiles.push({ path: relative(configData.rootDir!, filePath), status: 'changed' });
+      }
+    }
+
+    // Files left over in the context directory would be removed by the next generate
+    let existingContextFiles: string[] = [];
+    try {
+      existingContextFiles = await readdir(paths.contextDir);
+    } catch {
+      // Context directory does not exist - already reported through missing files
+    }
+    for (const file of existingContextFiles) {
+      const filePath = join(paths.contextDir, file);
+      if (!(filePath in expectedFiles) && filePath !== gitDiffPath) {
+        staleFiles.push({ path: relative(configData.rootDir!, filePath), status: 'unexpected' });
+      }
+    }
+
+    return {
+      upToDate: staleFiles.length === 0,
+      files: staleFiles,
+    };
+  }
+
+  /**
+   * List the project files (relative to rootDir) that generate() picks up, leaving out parseme's
+   * own output.
+   */
+  async getProjectFileList(): Promise<string[]> {
+    return this.getProjectFiles(this.lastBuild?.paths ?? this.resolveOutputPaths());
+  }
+
+  /**
+   * Re-analyze only the given files (relative to rootDir) on top of the last generate() run and
+   * rewrite files.md, structure.json, routes.json, pages.json, modules.json, angular.json,
+   * dependencies.json, cycles.json and api.json. PARSEME.md is rewritten when it changes, e.g.
+   * when one of these files appears or is removed and its link comes or goes.
+   * Returns the files that were written, which is empty when none of the changes affect project
+   * files.
+   */
+  async updateFiles(changedFiles: string[]): Promise<string[]> {
+    if (!this.lastBuild) {
+      throw new Error('updateFiles() requires a previous generate() call');
+    }
+
+    const rootDir = this.config.get().rootDir!;
+    const { context: previous, paths, sourceAnalyses: previousAnalyses } = this.lastBuild;
+    const allFiles = await this.getProjectFiles(paths);
+
+    // Only files that are (or were) part of the project count - this skips writes to the
+    // context directory itself, .git, node_modules and anything else that is excluded
+    const knownFiles = new Set([...previous.allFiles, ...allFiles]);
+    const changed = [...new Set(changedFiles)].filter((file) => knownFiles.has(file));
+    if (changed.length === 0) {
+      return [];
+    }
+
+    const codeFiles = await this.astAnalyzer.getCodeFiles(rootDir);
+    const analyses = new Map(previousAnalyses.map((analysis) => [analysis.path, analysis]));
+    for (const file of changed) {
+      analyses.delete(file);
+      if (codeFiles.includes(file)) {
+        const analysis = await this.astAnalyzer.analyzeFile(join(rootDir, file), file);
+        if (analysis) {
+          analyses.set(file, analysis);
+        }
+      }
+    }
+    const sourceAnalyses = codeFiles
+      .map((file) => analyses.get(file))
+      .filter((analysis): analysis is FileAnalysis => !!analysis);
+    const fileAnalyses = this.routeAnalyzer.resolve(
+      sourceAnalyses,
+      allFiles,
+      previous.projectInfo.pathAliases,
+    );
+
+    let fileStats = previous.fileStats;
+    if (fileStats) {
+      fileStats = { ...fileStats };
+      for (const file of changed) {
+        delete fileStats[file];
+      }
+      Object.assign(
+        fileStats,
+        await this.projectAnalyzer.getFileStats(
+          rootDir,
+          changed.filter((file) => allFiles.includes(file)),
+        ),
+      );
+    }
+
+    const dependencyGraph = this.dependencyAnalyzer.analyze(
+      fileAnalyses,
+      allFiles,
+      previous.projectInfo.pathAliases,
+    );
+    const buildContext: BuildContext = {
+      ...previous,
+      fileAnalyses,
+      allFiles,
+      dependencyGraph,
+      dependencyCycles: this.dependencyAnalyzer.findCycles(dependencyGraph),
+      reExports: this.dependencyAnalyzer.traceReExports(
+        fileAnalyses,
+        allFiles,
+        previous.projectInfo.pathAliases,
+      ),
+      apiSurface: this.apiAnalyzer.analyze(previous.projectInfo, fileAnalyses, allFiles),
+      pages: this.pageAnalyzer.analyze(previous.projectInfo, fileAnalyses, allFiles),
+      fileStats,
+    };
+    const output = this.contextBuilder.build(buildContext);
+    const written: string[] = [];
+
+    if (output.parseme !== this.lastBuild.parseme) {
+      await writeFile(
+        paths.outputPath,
+        output.parseme.endsWith('\n') ? output.parseme : output.parseme + '\n',
+      );
+      written.push(basename(paths.outputPath));
+    }
+    this.lastBuild = { context: buildContext, paths, sourceAnalyses, parseme: output.parseme };
+
+    for (const filename of [
+      'files',
+      'structure',
+      'routes',
+      'pages',
+      'modules',
+      'angular',
+      'dependencies',
+      'cycles',
+      'api',
+    ]) {
+      const filePath = join(paths.contextDir, this.getContextFileName(filename));
+      const content = output.context?.[filename];
+
+      if (content === undefined) {
+        // e.g. the last route was removed - drop the stale file
+        await rm(filePath, { force: true });
+        continue;
+      }
+
+      await writeFile(filePath, content.endsWith('\n') ? content : content + '\n');
+      written.push(this.getContextFileName(filename));
+    }
+
+    return written;
+  }
+
+  private async getProjectFiles(paths: {
+    outputPath: string;
+    contextDir: string;
+  }): Promise<string[]> {
+    const rootDir = this.config.get().rootDir!;
+    const files = await this.projectAnalyzer.getAllProjectFiles(rootDir);
+
+    return files.filter((file) => {
+      const filePath = join(rootDir, file);
+      return filePath !== paths.outputPath && !filePath.startsWith(paths.contextDir + '/');
+    });
+  }
+
+  private resolveOutputPaths(
+    outputPath?: string,
+    contextDir?: string,
+  ): { outputPath: string; contextDir: string } {
     // Use outputPath from config if not specified
     const configData = this.config.get();
     let finalOutputPath: string;
@@ -79,8 +370,6 @@ export class ParsemeGenerator {
       finalOutputPath = join(configData.rootDir!, 'PARSEME.md');
     }
 
-    const context = await this.generate(finalOutputPath);
-
     // Use contextDir from config if not specified
     const finalContextDir = contextDir || configData.contextDir || 'parseme-context';
 
@@ -90,22 +379,40 @@ export class ParsemeGenerator {
       ? finalContextDir // Absolute path
       : join(baseDir, finalContextDir); // Relative path
 
-    // Clear the directory if it exists, then recreate it
-    await rm(parsemeDir, { recursive: true, force: true });
-    await mkdir(parsemeDir, { recursive: true });
+    return { outputPath: finalOutputPath, contextDir: parsemeDir };
+  }
 
-    const parsemeContent = context.parseme.endsWith('\n')
+  /**
+   * Map generated context to the absolute file paths and contents that get written to disk
+   */
+  private getOutputFiles(
+    context: ContextOutput,
+    paths: { outputPath: string; contextDir: string },
+  ): Record<string, string> {
+    const files: Record<string, string> = {};
+
+    files[paths.outputPath] = context.parseme.endsWith('\n')
       ? context.parseme
       : context.parseme + '\n';
-    await writeFile(finalOutputPath, parsemeContent);
 
     if (context.context) {
       for (const [filename, content] of Object.entries(context.context)) {
-        // Use .md extension for markdown files, .json for others
-        const extension = filename === 'gitDiff' || filename === 'files' ? '.md' : '.json';
         const fileContent = content.endsWith('\n') ? content : content + '\n';
-        await writeFile(join(parsemeDir, `${filename}${extension}`), fileContent);
+        files[join(paths.contextDir, this.getContextFileName(filename))] = fileContent;
       }
     }
+
+    return files;
+  }
+
+  // The Git Information section of PARSEME.md, from its heading to the next one
+  private withoutGitSection(content: string): string {
+    return content.replace(/^## Git Information\n[\s\S]*?(?=^## |(?![\s\S]))/m, '');
+  }
+
+  private getContextFileName(filename: string): string {
+    // Use .md extension for markdown files, .json for others
+    const extension = filename === 'gitDiff' || filename === 'files' ? '.md' : '.json';
+    return `${filename}${extension}`;
   }
 }
@@ -7,15 +7,40 @@ import type {
   MiddlewareInfo,
   UtilityInfo,
   EndpointInfo,
+  NestModuleInfo,
+  NestAppInfo,
+  RouterMount,
+  AngularInfo,
+  AngularComponentInfo,
+  AngularModuleInfo,
+  AngularServiceInfo,
+  AngularRouteInfo,
 } from '../analyzers/pattern-detector.js';
 
-export type { ServiceInfo, ModelInfo, ConfigInfo, MiddlewareInfo, UtilityInfo, EndpointInfo };
+export type {
+  ServiceInfo,
+  ModelInfo,
+  ConfigInfo,
+  MiddlewareInfo,
+  UtilityInfo,
+  EndpointInfo,
+  NestModuleInfo,
+  NestAppInfo,
+  RouterMount,
+  AngularInfo,
+  AngularComponentInfo,
+  AngularModuleInfo,
+  AngularServiceInfo,
+  AngularRouteInfo,
+};
 
 export interface FileAnalysis {
   path: string;
   type: 'route' | 'middleware' | 'model' | 'service' | 'utility' | 'config' | 'test' | 'component';
   exports: string[];
   imports: string[];
+  dynamicImports?: string[]; // Specifiers loaded lazily through import(), e.g. React.lazy
+  typeImports?: string[]; // Specifiers of import type and export type ... from, erased at compile time
   functions: string[];
   classes: string[];
   routes?: EndpointInfo[];
@@ -25,6 +50,164 @@ export interface FileAnalysis {
   configs?: ConfigInfo[];
   middleware?: MiddlewareInfo[];
   utilities?: UtilityInfo[];
+  modules?: NestModuleInfo[];
+  nestApp?: NestAppInfo;
+  mounts?: RouterMount[];
+  routerExports?: Record<string, string>; // Export name -> local router it exports
+  directives?: string[]; // Module-level 'use client' and 'use server' directives
+  middlewareMatcher?: string[]; // Paths from config.matcher of Next.js middleware
+  pages?: PageRoute[]; // Route objects passed to createBrowserRouter() or useRoutes()
+  angular?: AngularInfo; // Angular components, modules, services and routes declared in the file
+  locations?: {
+    functions: SymbolLocation[];
+    classes: SymbolLocation[];
+    exports: SymbolLocation[];
+  };
+  signatures?: FunctionSignature[];
+  exportKinds?: Record<string, ExportKind>; // Exports declared in this file, re-exports excluded
+  reExports?: ReExportInfo[];
+  barrel?: boolean; // Only re-exports other modules, declares no exports of its own
+  summary?: string; // First sentence of the file header comment
+  docs?: Record<string, SymbolDoc>; // JSDoc of exported symbols, methods keyed as Class.method
+}
+
+export interface SymbolDoc {
+  summary?: string; // First sentence of the description
+  params?: Record<string, string>;
+  returns?: string;
+  deprecated?: string | true; // Deprecation note, or true when the tag has no text
+}
+
+export interface FunctionSignature {
+  name: string;
+  kind: 'function' | 'method' | 'constructor' | 'getter' | 'setter';
+  className?: string; // Set for class members
+  params: ParameterInfo[];
+  returnType?: string; // TypeScript return type as written in the source
+  async: boolean;
+  generator: boolean;
+  static?: boolean;
+  visibility?: 'public' | 'protected' | 'private'; // Class members only, #private counts as private
+  line: number;
+}
+
+export interface ParameterInfo {
+  name: string; // Destructuring patterns as written, rest parameters prefixed with "..."
+  type?: string; // TypeScript type as written in the source
+  optional?: boolean;
+  defaultValue?: string;
+}
+
+export type ExportKind =
+  | 'function'
+  | 'class'
+  | 'variable'
+  | 'enum'
+  | 'interface'
+  | 'type'
+  | 'namespace';
+
+export interface ReExportInfo {
+  name: string; // Exported name, "*" for export * from
+  imported?: string; // Name in the source module ("*" for namespaces), omitted for export *
+  source: string; // Module specifier as written
+}
+
+// An export traced back through re-exports to the file that declares it
+export interface TracedExport {
+  name: string; // Exported name
+  definedIn?: string; // Declaring project file, unset for packages and unresolved modules
+  localName?: string; // Name in the declaring file when it differs
+  kind?: ExportKind;
+  source?: string; // Specifier of the re-export, unset for the file's own declarations
+}
+
+// Public API reachable from one package entry point
+export interface ApiEntryPoint {
+  entryPoint: string; // As written in package.json
+  file: string; // Source file the entry point was mapped to
+  exports: ApiSymbol[];
+}
+
+export interface ApiSymbol {
+  name: string;
+  kind?: ExportKind;
+  definedIn?: string; // Unset for symbols re-exported from packages
+  summary?: string; // From the symbol's JSDoc
+  signature?: FunctionSignature; // Functions
+  methods?: FunctionSignature[]; // Public methods of classes
+}
+
+// A page, layout or endpoint of a frontend framework's router. File-based routers (Next.js,
+// SvelteKit, Nuxt, Remix and React Router flat routes) get one entry per route file, React Router
+// route objects one entry per object.
+export interface PageRoute {
+  route: string; // URL path with dynamic segments as written, e.g. /blog/[slug] or /blog/$slug
+  kind:
+    | 'page'
+    | 'layout'
+    | 'template'
+    | 'loading'
+    | 'error'
+    | 'global-error'
+    | 'not-found'
+    | 'default'
+    | 'app'
+    | 'document'
+    | 'endpoint';
+  framework: 'next.js' | 'sveltekit' | 'nuxt.js' | 'remix' | 'react-router';
+  file: string;
+  line?: number; // Route objects only
+  router?: 'app' | 'pages'; // Next.js App Router or Pages Router
+  rendering?: 'server' | 'client'; // Server or client component, or SvelteKit .server modules
+  component?: string; // Route objects: element, Component or the module loaded by lazy()
+  params?: string[]; // Names of the dynamic segments, "*" for splats
+  groups?: string[]; // Route groups like (marketing), which are left out of the URL
+  slot?: string; // Next.js parallel route slot, e.g. "modal" for @modal
+  dataFetching?: string[]; // Data loading exports, e.g. getServerSideProps, load or loader
+  methods?: string[]; // HTTP methods handled by SvelteKit +server endpoints
+}
+
+export interface PageMap {
+  pages: PageRoute[];
+  middleware?: {
+    file: string;
+    matcher?: string[]; // Unset when the middleware runs for every path
+  };
+}
+
+export interface SymbolLocation {
+  name: string;
+  line: number;
+}
+
+export interface FileStats {
+  size: number; // bytes
+  lines: number;
+}
+
+// Target of an import specifier after resolution
+export type ResolvedModule =
+  | { kind: 'file'; path: string } // Project file, relative to rootDir
+  | { kind: 'package'; name: string } // npm package or node builtin (node:fs)
+  | { kind: 'unresolved' };
+
+export interface FileDependencies {
+  imports: string[]; // Project files imported by this file
+  importedBy: string[]; // Project files importing this file
+  dynamicImports: string[]; // Project files loaded only through import()
+  dynamicImportedBy: string[]; // Project files loading this file only through import()
+  typeImports: string[]; // Project files imported only for their types
+  typeImportedBy: string[]; // Project files importing only types from this file
+  packages: string[];
+  unresolved: string[]; // Specifiers that matched neither a project file nor a package
+}
+
+export type DependencyGraph = Record<string, FileDependencies>;
+
+export interface DependencyCycle {
+  files: string[]; // Every file that is part of the cycle group, sorted
+  path: string[]; // Shortest import cycle, starting and ending with the same file
 }
 
 export interface RouteInfo {
@@ -32,6 +215,7 @@ export interface RouteInfo {
   path: string;
   handler: string;
   middleware?: string[];
+  schema?: Record<string, unknown>; // Request and response schemas, e.g. Fastify's schema option
   file: string;
   line: number;
 }
@@ -40,6 +224,13 @@ export interface ComponentInfo {
   name: string;
   file: string;
   line: number;
+  props?: string[];
+  emits?: string[]; // Vue events declared with defineEmits() or the emits option
+  composables?: string[]; // Vue composables called in the script, e.g. useRoute
+  hooks?: string[]; // React hooks called by the component, e.g. useState
+  provides?: string[]; // React contexts the component renders a provider for
+  consumes?: string[]; // React contexts read with useContext(), use() or <Context.Consumer>
+  children?: string[]; // Components used in the template or rendered in JSX
 }
 
 export interface GitInfo {
@@ -19,6 +19,8 @@ export interface ParsemeConfigFile extends GeneratorOptions {
   analyzeFileTypes?: string[];
   excludePatterns?: string[];
   maxDepth?: number;
+  cache?: boolean; // Reuse analyses of unchanged files from node_modules/.cache/parseme
+  concurrency?: number; // Worker threads used for AST analysis
 
   // Git integration
   includeGitInfo?: boolean;
@@ -7,3 +7,13 @@ export interface ContextOutput {
     [key: string]: string;
   };
 }
+
+export interface CheckResult {
+  upToDate: boolean;
+  files: StaleFile[];
+}
+
+export interface StaleFile {
+  path: string; // Relative to the project root
+  status: 'changed' | 'missing' | 'unexpected';
+}
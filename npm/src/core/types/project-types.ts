@@ -16,6 +16,13 @@ export interface ProjectInfo {
   scripts?: Record<string, string>;
   entryPoints?: string[];
   outputTargets?: string[];
+  pathAliases?: PathAliases;
+}
+
+// Module aliases from tsconfig.json/jsconfig.json, with all paths relative to the project root
+export interface PathAliases {
+  baseUrl?: string; // Non-relative imports are also looked up from here
+  paths: Record<string, string[]>; // e.g. { '@/*': ['src/*'] }
 }
 
 export type ProjectCategory =
@@ -0,0 +1,128 @@
+import { watch, type FSWatcher } from 'fs';
+import { dirname, join, sep } from 'path';
+
+import { ParsemeConfig } from './config.js';
+import { ParsemeGenerator } from './generator.js';
+
+import type { GeneratorOptions } from './types.js';
+
+export interface WatchOptions {
+  debounceMs?: number;
+  onUpdate?: (files: string[]) => void;
+  onError?: (error: unknown) => void;
+}
+
+export class ParsemeWatcher {
+  private readonly generator: ParsemeGenerator;
+  private readonly rootDir: string;
+  private readonly debounceMs: number;
+  private readonly pendingFiles = new Set<string>();
+  // One non-recursive watcher per directory holding project files, keyed by the path relative to
+  // rootDir ('.' for rootDir itself), so node_modules, .git and ignored folders are never watched
+  private readonly fsWatchers = new Map<string, FSWatcher>();
+  private closed = false;
+  private timer?: NodeJS.Timeout;
+  private running: Promise<void> = Promise.resolve();
+
+  constructor(
+    options: GeneratorOptions = {},
+    private readonly watchOptions: WatchOptions = {},
+  ) {
+    this.generator = new ParsemeGenerator(options);
+    this.rootDir = new ParsemeConfig(options).get().rootDir!;
+    this.debounceMs = watchOptions.debounceMs ?? 300;
+  }
+
+  /**
+   * Run a full generation, then keep PARSEME.md, files.md, structure.json, routes.json,
+   * pages.json, modules.json, angular.json, dependencies.json, cycles.json and api.json in sync
+   * with changes to project files until close() is called.
+   */
+  async start(): Promise<void> {
+    this.closed = false;
+    await this.generator.generateToFile();
+    this.watchDirectories(await this.generator.getProjectFileList());
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.fsWatchers.forEach((fsWatcher) => fsWatcher.close());
+    this.fsWatchers.clear();
+    await this.running;
+  }
+
+  /**
+   * Watch the directories of the given project files and their parents, and stop watching
+   * directories that no longer hold any. Returns the directories that were added.
+   */
+  private watchDirectories(files: string[]): string[] {
+    const directories = new Set(['.']);
+    for (const file of files) {
+      for (let directory = dirname(file); directory !== '.'; directory = dirname(directory)) {
+        directories.add(directory);
+      }
+    }
+
+    this.fsWatchers.forEach((fsWatcher, directory) => {
+      if (!directories.has(directory)) {
+        fsWatcher.close();
+        this.fsWatchers.delete(directory);
+      }
+    });
+
+    const added = [...directories].filter((directory) => !this.fsWatchers.has(directory));
+    for (const directory of added) {
+      try {
+        const fsWatcher = watch(join(this.rootDir, directory), (_event, filename) => {
+          if (filename) {
+            this.schedule(directory === '.' ? filename.toString() : join(directory, filename));
+          }
+        });
+        // A removed directory is dropped with the next batch of changes
+        fsWatcher.on('error', () => {
+          fsWatcher.close();
+          this.fsWatchers.delete(directory);
+        });
+        this.fsWatchers.set(directory, fsWatcher);
+      } catch {
+        // The directory was removed before it could be watched
+      }
+    }
+
+    return added;
+  }
+
+  private schedule(file: string): void {
+    // Git and the file collectors report paths with forward slashes
+    this.pendingFiles.add(file.split(sep).join('/'));
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    const files = [...this.pendingFiles];
+    this.pendingFiles.clear();
+
+    // Chain updates so a slow analysis never overlaps with the next batch
+    this.running = this.running.then(async () => {
+      try {
+        // Files in new directories were written before their directory was watched
+        const projectFiles = await this.generator.getProjectFileList();
+        if (this.closed) {
+          return;
+        }
+        const added = new Set(this.watchDirectories(projectFiles));
+        files.push(...projectFiles.filter((file) => added.has(dirname(file))));
+
+        const written = await this.generator.updateFiles(files);
+        if (written.length > 0) {
+          this.watchOptions.onUpdate?.(written);
+        }
+      } catch (error) {
+        this.watchOptions.onError?.(error);
+      }
+    });
+  }
+}
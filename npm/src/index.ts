@@ -1,13 +1,30 @@
 // Main exports for the parseme package
 export { ParsemeGenerator } from './core/generator.js';
 export { ParsemeConfig } from './core/config.js';
+export { ParsemeWatcher, type WatchOptions } from './core/watcher.js';
 export type {
   GeneratorOptions,
   ContextOutput,
+  CheckResult,
+  StaleFile,
   ProjectInfo,
   FrameworkInfo,
   RouteInfo,
   FileAnalysis,
+  FunctionSignature,
+  ParameterInfo,
+  SymbolDoc,
+  ExportKind,
+  ReExportInfo,
+  TracedExport,
+  ApiEntryPoint,
+  ApiSymbol,
+  PageRoute,
+  PageMap,
+  DependencyGraph,
+  DependencyCycle,
+  FileDependencies,
   GitInfo,
+  PathAliases,
   ParsemeConfigFile,
 } from './core/types.js';
@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import type { FileAnalysis } from '../core/types.js';
+
+interface CacheFile {
+  salt: string;
+  entries: Record<string, FileAnalysis>;
+}
+
+/**
+ * On-disk cache of file analyses keyed by file path and content hash, so unchanged files
+ * do not need to be parsed again. Entries are invalidated as a whole when the salt
+ * (parseme version, analysis format and relevant config) changes.
+ */
+export class AnalysisCache {
+  // Bump whenever the shape or content of FileAnalysis changes, so entries written by an earlier
+  // build of the same parseme version are not served
+  static readonly formatVersion = 3;
+
+  private entries: Record<string, FileAnalysis> = {};
+  private usedEntries: Record<string, FileAnalysis> = {};
+  private dirty = false;
+
+  constructor(
+    private readonly cacheDir: string,
+    private readonly salt: string,
+    private readonly readOnly = false, // Serve entries but never write the cache file
+  ) {}
+
+  static async getParsemeVersion(): Promise<string> {
+    try {
+      const packageJson = JSON.parse(
+        await readFile(new URL('../../package.json', import.meta.url), 'utf-8'),
+      );
+      return packageJson.version || 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async load(): Promise<void> {
+    try {
+      const cacheFile: CacheFile = JSON.parse(await readFile(this.getCachePath(), 'utf-8'));
+      if (cacheFile.salt === this.salt) {
+        this.entries = cacheFile.entries;
+      }
+    } catch {
+      // Missing or corrupt cache - start empty
+    }
+  }
+
+  get(relativePath: string, content: string): FileAnalysis | undefined {
+    const key = this.getKey(relativePath, content);
+    const analysis = this.entries[key];
+    if (analysis) {
+      this.usedEntries[key] = analysis;
+    }
+    return analysis;
+  }
+
+  set(relativePath: string, content: string, analysis: FileAnalysis): void {
+    this.usedEntries[this.getKey(relativePath, content)] = analysis;
+    this.dirty = true;
+  }
+
+  async save(): Promise<void> {
+    if (this.readOnly) {
+      return;
+    }
+
+    // Only entries used in this run are kept, so stale file versions are pruned
+    if (!this.dirty && Object.keys(this.usedEntries).length === Object.keys(this.entries).length) {
+      return;
+    }
+
+    const cacheFile: CacheFile = {
+      salt: this.salt,
+      entries: Object.fromEntries(
+        Object.keys(this.usedEntries)
+          .sort()
+          .map((key) => [key, this.usedEntries[key]]),
+      ),
+    };
+
+    try {
+      await mkdir(this.cacheDir, { recursive: true });
+      await writeFile(this.getCachePath(), JSON.stringify(cacheFile));
+      this.entries = this.usedEntries;
+      this.usedEntries = {};
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`Failed to write analysis cache: ${(error as Error).message}`);
+    }
+  }
+
+  private getKey(relativePath: string, content: string): string {
+    return createHash('sha256').update(relativePath).update('\0').update(content).digest('hex');
+  }
+
+  private getCachePath(): string {
+    return join(this.cacheDir, 'analysis.json');
+  }
+}
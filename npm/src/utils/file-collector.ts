@@ -1,6 +1,10 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
 import { FileFilterService } from './file-filter.js';
 
 import type { ParsemeConfig } from '../core/config.js';
+import type { FileStats } from '../core/types.js';
 
 export interface FileCollectionOptions {
   fileTypes?: string[];
@@ -85,10 +89,48 @@ export class FileCollector {
    */
   async getCodeFiles(rootDir: string, fileTypes?: string[]): Promise<FileCollectionResult> {
     const configData = this.config.get();
-    const defaultFileTypes = configData.analyzeFileTypes || ['ts', 'tsx', 'js', 'jsx'];
+    const defaultFileTypes = configData.analyzeFileTypes || [
+      'ts',
+      'tsx',
+      'js',
+      'jsx',
+      'mjs',
+      'cjs',
+      'vue',
+      'svelte',
+      'astro',
+    ];
 
     return this.getFiles(rootDir, {
       fileTypes: fileTypes || defaultFileTypes,
     });
   }
+
+  /**
+   * Get size and line count for the given files (for files.md and structure.json stats)
+   */
+  async getFileStats(rootDir: string, files: string[]): Promise<Record<string, FileStats>> {
+    const stats: Record<string, FileStats> = {};
+
+    for (const file of files) {
+      try {
+        const content = await readFile(join(rootDir, file));
+        let lines = 0;
+        for (const byte of content) {
+          if (byte === 0x0a) {
+            lines++;
+          }
+        }
+        // Count a trailing line without newline
+        if (content.length > 0 && content[content.length - 1] !== 0x0a) {
+          lines++;
+        }
+        stats[file] = { size: content.length, lines };
+      } catch {
+        // File vanished or is unreadable - skip its stats
+      }
+    }
+
+    return stats;
+  }
 }
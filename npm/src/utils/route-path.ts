@@ -0,0 +1,10 @@
+// Join route path segments into one absolute path, e.g. ('/api/', 'users', '/:id') -> /api/users/:id
+export function joinRoutePath(...segments: string[]): string {
+  return (
+    '/' +
+    segments
+      .flatMap((segment) => segment.split('/'))
+      .filter(Boolean)
+      .join('/')
+  );
+}
@@ -0,0 +1,89 @@
+import { Worker } from 'worker_threads';
+
+interface Job<TTask, TResult> {
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of worker threads running the same script. Each worker handles one task at a
+ * time: it receives the task via postMessage and must reply with exactly one message.
+ */
+export class WorkerPool<TTask, TResult> {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly queue: Job<TTask, TResult>[] = [];
+  private readonly active = new Map<Worker, Job<TTask, TResult>>();
+
+  constructor(script: URL, size: number, workerData?: unknown) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(script, { workerData });
+
+      worker.on('message', (result: TResult) => {
+        const job = this.active.get(worker);
+        this.active.delete(worker);
+        this.idle.push(worker);
+        job?.resolve(result);
+        this.dispatch();
+      });
+
+      worker.on('error', (error) => this.remove(worker, error));
+
+      // Workers can also exit without an error, e.g. when killed or through process.exit()
+      worker.on('exit', (code) => {
+        this.remove(worker, new Error(`Worker exited with code ${code}`));
+      });
+
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  run(task: TTask): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      if (this.workers.length === 0) {
+        reject(new Error('No workers available'));
+        return;
+      }
+
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    // Cleared first, so the exit events of terminated workers are not treated as crashes
+    const workers = this.workers.splice(0);
+    this.idle.length = 0;
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  // A crashed worker is not replaced - its job fails and the rest continue on the others
+  private remove(worker: Worker, error: Error): void {
+    // 'exit' follows 'error', the worker is only removed once
+    if (!this.workers.includes(worker)) {
+      return;
+    }
+
+    this.active.get(worker)?.reject(error);
+    this.active.delete(worker);
+    this.workers.splice(this.workers.indexOf(worker), 1);
+    if (this.idle.includes(worker)) {
+      this.idle.splice(this.idle.indexOf(worker), 1);
+    }
+
+    if (this.workers.length === 0) {
+      this.queue.splice(0).forEach((job) => job.reject(error));
+    }
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.active.set(worker, job);
+      worker.postMessage(job.task);
+    }
+  }
+}
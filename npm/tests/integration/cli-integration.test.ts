@@ -79,6 +79,7 @@ describe('CLI Integration', () => {
       assert.strictEqual(code, 0);
       assert.ok(stdout.includes('AI Project Context Generator'));
       assert.ok(stdout.includes('generate|g'));
+      assert.ok(stdout.includes('check|c'));
       assert.ok(stdout.includes('init|i'));
     });
 
@@ -207,6 +208,88 @@ export default {
     });
   });
 
+  describe('CLI process execution with check command', () => {
+    test('should exit non-zero with a summary when context is stale', async () => {
+      const configFile = `
+export default {
+  rootDir: '${projectDir}',
+  analyzeFileTypes: ['ts'],
+  includeGitInfo: false
+};
+`;
+
+      await writeFile(
+        join(projectDir, 'package.json'),
+        JSON.stringify({ name: 'cli-check-test', version: '1.0.0', type: 'module' }, null, 2),
+      );
+      await writeFile(join(projectDir, 'parseme.config.js'), configFile);
+      await writeFile(join(projectDir, 'src', 'test.ts'), 'export const a = 1;');
+
+      const before = await runCli(['check']);
+      assert.strictEqual(before.code, 1);
+      assert.ok(before.stderr.includes('Context is out of date'));
+      assert.ok(before.stderr.includes('missing: PARSEME.md'));
+
+      const generated = await runCli(['generate']);
+      assert.strictEqual(generated.code, 0);
+
+      const after = await runCli(['check']);
+      assert.strictEqual(after.code, 0);
+      assert.ok(after.stdout.includes('Context is up to date'));
+
+      await writeFile(join(projectDir, 'src', 'test.ts'), 'export const b = 2;');
+
+      const stale = await runCli(['c']);
+      assert.strictEqual(stale.code, 1);
+      assert.ok(stale.stderr.includes('changed: parseme-context/structure.json'));
+    });
+
+    test('should report up to date right after generating routes of mounted routers', async () => {
+      await writeFile(
+        join(projectDir, 'package.json'),
+        JSON.stringify(
+          {
+            name: 'cli-mount-test',
+            version: '1.0.0',
+            type: 'module',
+            dependencies: { express: '^4' },
+          },
+          null,
+          2,
+        ),
+      );
+      await writeFile(
+        join(projectDir, 'parseme.config.js'),
+        `export default { rootDir: '${projectDir}', analyzeFileTypes: ['js'], includeGitInfo: false };`,
+      );
+      await writeFile(
+        join(projectDir, 'src', 'app.js'),
+        `import express from 'express';
+import usersRouter from './users.js';
+
+const auth = (req, res, next) => next();
+const app = express();
+app.use('/api/users', auth, usersRouter);`,
+      );
+      await writeFile(
+        join(projectDir, 'src', 'users.js'),
+        `import { Router } from 'express';
+
+const router = Router();
+router.get('/:id', (req, res) => res.json({}));
+
+export default router;`,
+      );
+
+      const generated = await runCli(['generate']);
+      assert.strictEqual(generated.code, 0);
+
+      const checked = await runCli(['check']);
+      assert.strictEqual(checked.stderr, '');
+      assert.strictEqual(checked.code, 0);
+    });
+  });
+
   describe('CLI process execution with init command', () => {
     test('should run init command and create config file', async () => {
       const { code, stdout } = await runCli(['init', '--format', 'json']);
@@ -308,6 +391,21 @@ export default {
       assert.ok(stderr.includes('unknown option') || stderr.includes('error'));
     });
 
+    test('should reject invalid numeric options', async () => {
+      const concurrency = await runCli(['generate', '--concurrency', 'abc']);
+      assert.strictEqual(concurrency.code, 1);
+      assert.ok(concurrency.stderr.includes("option '--concurrency <number>' argument 'abc'"));
+      assert.ok(concurrency.stderr.includes('Must be a positive integer.'));
+
+      const zero = await runCli(['check', '--concurrency', '0']);
+      assert.strictEqual(zero.code, 1);
+      assert.ok(zero.stderr.includes('Must be a positive integer.'));
+
+      const depth = await runCli(['generate', '--max-depth', '-1']);
+      assert.strictEqual(depth.code, 1);
+      assert.ok(depth.stderr.includes('Must be a non-negative integer.'));
+    });
+
     test('should handle generic generate errors', async () => {
       // Create a malformed config that will cause a generic error (not "No configuration file found")
       const malformedConfig = `
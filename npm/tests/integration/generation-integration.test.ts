@@ -1,10 +1,14 @@
-import { mkdir, writeFile, rm, access } from 'fs/promises';
+import { exec } from 'child_process';
+import { mkdir, writeFile, rm, access, readFile } from 'fs/promises';
 import * as assert from 'node:assert';
 import { test, describe, beforeEach, afterEach, mock } from 'node:test';
 import { join } from 'path';
+import { promisify } from 'util';
 
 import { ParsemeGenerator } from '../../dist/core/generator.js';
 
+const execAsync = promisify(exec);
+
 describe('End-to-End Generation Integration', () => {
   const testDir = '/tmp/parseme-generation-test';
   const projectDir = join(testDir, 'test-project');
@@ -24,6 +28,35 @@ describe('End-to-End Generation Integration', () => {
     mock.restoreAll();
   });
 
+  // Express app mounting a router behind middleware, its routes are resolved across both files
+  async function writeMountedRouterProject(): Promise<void> {
+    await writeFile(
+      join(projectDir, 'package.json'),
+      JSON.stringify({ name: 'mount-test', version: '1.0.0', dependencies: { express: '^4.0.0' } }),
+    );
+    await mkdir(join(projectDir, 'src', 'routes'), { recursive: true });
+    await writeFile(
+      join(projectDir, 'src', 'app.js'),
+      `import express from 'express';
+import usersRouter from './routes/users.js';
+
+const auth = (req, res, next) => next();
+const app = express();
+app.use('/api/users', auth, usersRouter);
+
+export default app;`,
+    );
+    await writeFile(
+      join(projectDir, 'src', 'routes', 'users.js'),
+      `import { Router } from 'express';
+
+const router = Router();
+router.get('/:id', (req, res) => res.json({}));
+
+export default router;`,
+    );
+  }
+
   describe('Complete project analysis and generation', () => {
     test('should generate documentation for TypeScript project', async () => {
       // Create a realistic project structure
@@ -142,6 +175,18 @@ export function formatDate(date: Date): string {
 
       // Verify API routes were detected
       assert.ok(parsemeContent.includes('API Routes') || parsemeContent.includes('routes.json'));
+
+      // Verify .js imports were resolved to the TypeScript sources
+      const dependencies = JSON.parse(
+        await readFile(join(projectDir, 'parseme-context', 'dependencies.json'), 'utf-8'),
+      );
+      assert.deepStrictEqual(dependencies['src/index.ts'].imports, [
+        'src/services/user-service.ts',
+      ]);
+      assert.deepStrictEqual(dependencies['src/index.ts'].packages, ['express']);
+      assert.deepStrictEqual(dependencies['src/services/user-service.ts'].importedBy, [
+        'src/index.ts',
+      ]);
     });
 
     test('should handle mixed TypeScript/JavaScript project', async () => {
@@ -205,6 +250,33 @@ module.exports = { processData };
       );
     });
 
+    test('should not report type-only imports between files as a cycle', async () => {
+      await writeFile(
+        join(projectDir, 'package.json'),
+        JSON.stringify({ name: 'type-cycle-test', version: '1.0.0' }),
+      );
+      await writeFile(
+        join(projectDir, 'src', 'a.ts'),
+        `import type { B } from './b.js';\nexport interface A { b: B }`,
+      );
+      await writeFile(
+        join(projectDir, 'src', 'b.ts'),
+        `import type { A } from './a.js';\nexport interface B { a?: A }`,
+      );
+
+      const result = await new ParsemeGenerator({
+        rootDir: projectDir,
+        analyzeFileTypes: ['ts'],
+        includeGitInfo: false,
+      }).generate();
+
+      assert.ok(!result.parseme.includes('## Circular Dependencies'));
+      assert.strictEqual(result.context?.cycles, undefined);
+      assert.deepStrictEqual(JSON.parse(result.context!.dependencies)['src/a.ts'].typeImports, [
+        'src/b.ts',
+      ]);
+    });
+
     test('should handle empty project gracefully', async () => {
       const packageJson = {
         name: 'empty-project',
@@ -364,6 +436,27 @@ export function greet(name: string): string {
       assert.ok(typeof structure === 'object');
     });
 
+    test('should write identical output with an empty and a filled analysis cache', async () => {
+      await writeMountedRouterProject();
+      const options = { rootDir: projectDir, analyzeFileTypes: ['js'], includeGitInfo: false };
+      const readOutput = async (): Promise<string[]> =>
+        Promise.all(
+          ['PARSEME.md', 'parseme-context/structure.json', 'parseme-context/routes.json'].map(
+            (file) => readFile(join(projectDir, file), 'utf-8'),
+          ),
+        );
+
+      await new ParsemeGenerator(options).generateToFile();
+      const uncached = await readOutput();
+      await access(join(projectDir, 'node_modules', '.cache', 'parseme', 'analysis.json'));
+
+      await new ParsemeGenerator(options).generateToFile();
+      const cached = await readOutput();
+
+      assert.ok(uncached[2].includes('"middleware"'));
+      assert.deepStrictEqual(cached, uncached);
+    });
+
     test('should handle relative and absolute paths correctly', async () => {
       const packageJson = {
         name: 'path-test',
@@ -440,4 +533,100 @@ export function greet(name: string): string {
       }
     });
   });
+
+  describe('Staleness check integration', () => {
+    async function createProject(): Promise<ParsemeGenerator> {
+      await writeFile(
+        join(projectDir, 'package.json'),
+        JSON.stringify({ name: 'check-test', version: '1.0.0' }, null, 2),
+      );
+      await writeFile(join(projectDir, 'src', 'message.ts'), 'export const message = "Hello";');
+
+      return new ParsemeGenerator({
+        rootDir: projectDir,
+        analyzeFileTypes: ['ts'],
+        includeGitInfo: false,
+      });
+    }
+
+    test('should report up to date right after generation', async () => {
+      const generator = await createProject();
+      await generator.generateToFile();
+
+      const result = await generator.check();
+
+      assert.strictEqual(result.upToDate, true);
+      assert.deepStrictEqual(result.files, []);
+    });
+
+    test('should stay up to date after committing the output with git info enabled', async () => {
+      await createProject();
+      await writeFile(join(projectDir, '.gitignore'), 'node_modules\n');
+      await execAsync('git init', { cwd: projectDir });
+      await execAsync('git config user.email "test@test.com"', { cwd: projectDir });
+      await execAsync('git config user.name "Test User"', { cwd: projectDir });
+      await execAsync('git add . && git commit -m "Initial commit"', { cwd: projectDir });
+
+      const options = { rootDir: projectDir, analyzeFileTypes: ['ts'], includeGitInfo: true };
+      await new ParsemeGenerator(options).generateToFile();
+      const parseme = await readFile(join(projectDir, 'PARSEME.md'), 'utf-8');
+      assert.ok(parseme.includes('## Git Information'));
+
+      // Committing the output moves HEAD and clears the diff stat
+      await execAsync('git add . && git commit -m "Add context"', { cwd: projectDir });
+
+      const result = await new ParsemeGenerator(options).check();
+
+      assert.deepStrictEqual(result.files, []);
+      assert.strictEqual(result.upToDate, true);
+    });
+
+    test('should report missing files when nothing was generated', async () => {
+      const generator = await createProject();
+
+      const result = await generator.check();
+
+      assert.strictEqual(result.upToDate, false);
+      assert.ok(result.files.some((f) => f.path === 'PARSEME.md' && f.status === 'missing'));
+      assert.ok(
+        result.files.some(
+          (f) => f.path === 'parseme-context/structure.json' && f.status === 'missing',
+        ),
+      );
+      // The analysis cache is read but not written
+      await assert.rejects(
+        access(join(projectDir, 'node_modules', '.cache', 'parseme', 'analysis.json')),
+      );
+    });
+
+    test('should report changed and unexpected files without writing', async () => {
+      const generator = await createProject();
+      await generator.generateToFile();
+
+      await writeFile(join(projectDir, 'src', 'message.ts'), 'export function greet() {}');
+      await writeFile(join(projectDir, 'parseme-context', 'old.json'), '{}');
+
+      const result = await generator.check();
+
+      assert.strictEqual(result.upToDate, false);
+      assert.ok(
+        result.files.some(
+          (f) => f.path === 'parseme-context/structure.json' && f.status === 'changed',
+        ),
+      );
+      assert.ok(
+        result.files.some(
+          (f) => f.path === 'parseme-context/old.json' && f.status === 'unexpected',
+        ),
+      );
+
+      // Check must not touch the files on disk
+      await access(join(projectDir, 'parseme-context', 'old.json'));
+      const structure = await readFile(
+        join(projectDir, 'parseme-context', 'structure.json'),
+        'utf-8',
+      );
+      assert.ok(!structure.includes('greet'));
+    });
+  });
 });
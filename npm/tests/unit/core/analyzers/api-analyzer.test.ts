@@ -0,0 +1,116 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { ApiAnalyzer } from '../../../../dist/core/analyzers/api-analyzer.js';
+
+import type { FileAnalysis, ProjectInfo } from '../../../../dist/core/types.js';
+
+describe('ApiAnalyzer', () => {
+  const analyzer = new ApiAnalyzer();
+
+  const projectInfo: ProjectInfo = {
+    name: 'my-lib',
+    type: 'typescript',
+    category: 'npm-package',
+    packageManager: 'npm',
+    dependencies: {},
+    devDependencies: {},
+    entryPoints: ['./dist/index.js', './dist/index.d.ts', './package.json'],
+    outputTargets: ['dist'],
+  };
+
+  const fileAnalyses: FileAnalysis[] = [
+    {
+      path: 'src/index.ts',
+      type: 'utility',
+      exports: ['Client', 'connect'],
+      imports: ['./client.js'],
+      functions: [],
+      classes: [],
+      exportKinds: {},
+      reExports: [
+        { name: 'Client', imported: 'Client', source: './client.js' },
+        { name: 'connect', imported: 'createConnection', source: './client.js' },
+      ],
+    },
+    {
+      path: 'src/client.ts',
+      type: 'utility',
+      exports: ['Client', 'createConnection'],
+      imports: [],
+      functions: ['createConnection'],
+      classes: ['Client'],
+      exportKinds: { Client: 'class', createConnection: 'function' },
+      docs: { createConnection: { summary: 'Open a connection.' } },
+      signatures: [
+        {
+          name: 'createConnection',
+          kind: 'function',
+          params: [{ name: 'url', type: 'string' }],
+          returnType: 'Client',
+          async: false,
+          generator: false,
+          line: 10,
+        },
+        {
+          name: 'send',
+          kind: 'method',
+          className: 'Client',
+          params: [],
+          async: true,
+          generator: false,
+          visibility: 'public',
+          line: 3,
+        },
+        {
+          name: 'reconnect',
+          kind: 'method',
+          className: 'Client',
+          params: [],
+          async: false,
+          generator: false,
+          visibility: 'private',
+          line: 5,
+        },
+      ],
+    },
+  ];
+
+  test('should list symbols reachable from the entry points with their declarations', () => {
+    const api = analyzer.analyze(projectInfo, fileAnalyses, ['package.json']);
+
+    assert.strictEqual(api.length, 1);
+    assert.strictEqual(api[0].entryPoint, './dist/index.js');
+    assert.strictEqual(api[0].file, 'src/index.ts');
+    assert.deepStrictEqual(
+      api[0].exports.map(({ name, kind, definedIn, summary }) => ({
+        name,
+        kind,
+        definedIn,
+        summary,
+      })),
+      [
+        { name: 'Client', kind: 'class', definedIn: 'src/client.ts', summary: undefined },
+        {
+          name: 'connect',
+          kind: 'function',
+          definedIn: 'src/client.ts',
+          summary: 'Open a connection.',
+        },
+      ],
+    );
+    assert.deepStrictEqual(
+      api[0].exports[0].methods?.map((method) => method.name),
+      ['send'],
+    );
+    assert.strictEqual(api[0].exports[1].signature?.returnType, 'Client');
+  });
+
+  test('should return nothing for projects that are not npm packages', () => {
+    const api = analyzer.analyze({ ...projectInfo, category: 'backend-api' }, fileAnalyses, [
+      'package.json',
+    ]);
+
+    assert.deepStrictEqual(api, []);
+  });
+});
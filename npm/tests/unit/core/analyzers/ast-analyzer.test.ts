@@ -1,3 +1,4 @@
+import { access, mkdir, readFile, rm, writeFile } from 'fs/promises';
 import * as assert from 'node:assert';
 import { test, describe, beforeEach, afterEach, mock } from 'node:test';
 import { join } from 'path';
@@ -72,6 +73,14 @@ describe('ASTAnalyzer', () => {
       }
     });
 
+    test('should record line numbers for exports', async () => {
+      const results = await analyzer.analyzeProject(fixturesDir);
+
+      const jsFile = results.find((r) => r.path.includes('express-routes.js'));
+      assert.ok(jsFile);
+      assert.deepStrictEqual(jsFile.locations?.exports, [{ name: 'default', line: 49 }]);
+    });
+
     test('should respect exclude patterns', async () => {
       const configWithExcludes = new parsemeConfig({
         rootDir: fixturesDir,
@@ -86,6 +95,102 @@ describe('ASTAnalyzer', () => {
     });
   });
 
+  describe('analysis cache', () => {
+    const projectDir = '/tmp/parseme-ast-cache-test';
+    const cachePath = join(projectDir, 'node_modules', '.cache', 'parseme', 'analysis.json');
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, 'src'), { recursive: true });
+      await writeFile(join(projectDir, 'src', 'index.ts'), 'export function hello() {}');
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    test('should reuse cached analyses for unchanged files', async () => {
+      const cachedAnalyzer = new ASTAnalyzer(
+        new parsemeConfig({ rootDir: projectDir, useGitForFiles: false }),
+      );
+
+      const first = await cachedAnalyzer.analyzeProject(projectDir);
+      assert.deepStrictEqual(first[0].functions, ['hello']);
+
+      // Tamper with the cached entry to prove the second run reads it instead of parsing
+      const cacheFile = JSON.parse(await readFile(cachePath, 'utf-8'));
+      const [key] = Object.keys(cacheFile.entries);
+      cacheFile.entries[key].functions = ['fromCache'];
+      await writeFile(cachePath, JSON.stringify(cacheFile));
+
+      const second = await cachedAnalyzer.analyzeProject(projectDir);
+      assert.deepStrictEqual(second[0].functions, ['fromCache']);
+
+      // Changing the file invalidates its entry
+      await writeFile(join(projectDir, 'src', 'index.ts'), 'export function goodbye() {}');
+      const third = await cachedAnalyzer.analyzeProject(projectDir);
+      assert.deepStrictEqual(third[0].functions, ['goodbye']);
+    });
+
+    test('should discard analyses cached in an older analysis format', async () => {
+      const cachedAnalyzer = new ASTAnalyzer(
+        new parsemeConfig({ rootDir: projectDir, useGitForFiles: false }),
+      );
+      await cachedAnalyzer.analyzeProject(projectDir);
+
+      const cacheFile = JSON.parse(await readFile(cachePath, 'utf-8'));
+      const salt = JSON.parse(cacheFile.salt);
+      assert.strictEqual(typeof salt.format, 'number');
+      const [key] = Object.keys(cacheFile.entries);
+      cacheFile.entries[key].functions = ['fromCache'];
+      cacheFile.salt = JSON.stringify({ ...salt, format: salt.format - 1 });
+      await writeFile(cachePath, JSON.stringify(cacheFile));
+
+      const result = await cachedAnalyzer.analyzeProject(projectDir);
+      assert.deepStrictEqual(result[0].functions, ['hello']);
+    });
+
+    test('should not write a cache when disabled', async () => {
+      const uncachedAnalyzer = new ASTAnalyzer(
+        new parsemeConfig({ rootDir: projectDir, useGitForFiles: false, cache: false }),
+      );
+
+      await uncachedAnalyzer.analyzeProject(projectDir);
+
+      await assert.rejects(() => access(cachePath));
+    });
+  });
+
+  describe('parallel analysis', () => {
+    const projectDir = '/tmp/parseme-ast-parallel-test';
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, 'src'), { recursive: true });
+      for (let i = 0; i < 120; i++) {
+        await writeFile(
+          join(projectDir, 'src', `file${i}.ts`),
+          `import { dep } from './dep${i}.js';\nexport function fn${i}() {}\nexport class Class${i} {}\n`,
+        );
+      }
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    test('should produce the same results as serial analysis', async () => {
+      const options = { rootDir: projectDir, useGitForFiles: false, cache: false };
+      const serial = await new ASTAnalyzer(
+        new parsemeConfig({ ...options, concurrency: 1 }),
+      ).analyzeProject(projectDir);
+      const parallel = await new ASTAnalyzer(
+        new parsemeConfig({ ...options, concurrency: 2 }),
+      ).analyzeProject(projectDir);
+
+      assert.strictEqual(parallel.length, 120);
+      assert.strictEqual(JSON.stringify(parallel), JSON.stringify(serial));
+    });
+  });
+
   describe('analyzeFile', () => {
     test('should return null for non-JS/TS files', async () => {
       const consoleWarnMock = mock.method(console, 'warn', () => {});
@@ -111,6 +216,549 @@ describe('ASTAnalyzer', () => {
     });
   });
 
+  describe('signatures', () => {
+    test('should record parameters, types and flags of functions and arrow exports', () => {
+      const result = analyzer.analyzeContent(
+        `export async function fetchUser(id: string, { retries = 3 }: Options = {}): Promise<User> {}
+export const format = (value: number, ...rest: string[]) => String(value);
+function* ids(start?: number) {}`,
+        '.ts',
+        'src/api.ts',
+      );
+
+      assert.deepStrictEqual(result?.signatures, [
+        {
+          name: 'fetchUser',
+          kind: 'function',
+          params: [
+            { name: 'id', type: 'string' },
+            {
+              name: '{ retries = 3 }',
+              type: 'Options',
+              optional: true,
+              defaultValue: '{}',
+            },
+          ],
+          returnType: 'Promise<User>',
+          async: true,
+          generator: false,
+          line: 1,
+        },
+        {
+          name: 'format',
+          kind: 'function',
+          params: [
+            { name: 'value', type: 'number' },
+            { name: '...rest', type: 'string[]' },
+          ],
+          async: false,
+          generator: false,
+          line: 2,
+        },
+        {
+          name: 'ids',
+          kind: 'function',
+          params: [{ name: 'start', type: 'number', optional: true }],
+          async: false,
+          generator: true,
+          line: 3,
+        },
+      ]);
+    });
+
+    test('should record class members with kind and visibility', () => {
+      const result = analyzer.analyzeContent(
+        `export class UserService {
+  constructor(private readonly db: Database) {}
+  get count(): number { return 0; }
+  protected static create(): UserService { return new UserService(db); }
+  async #load(id: string) {}
+}`,
+        '.ts',
+        'src/user-service.ts',
+      );
+
+      const members = result?.signatures?.map(
+        ({ name, kind, className, static: isStatic, visibility }) => ({
+          name,
+          kind,
+          className,
+          isStatic,
+          visibility,
+        }),
+      );
+      assert.deepStrictEqual(members, [
+        {
+          name: 'constructor',
+          kind: 'constructor',
+          className: 'UserService',
+          isStatic: false,
+          visibility: 'public',
+        },
+        {
+          name: 'count',
+          kind: 'getter',
+          className: 'UserService',
+          isStatic: false,
+          visibility: 'public',
+        },
+        {
+          name: 'create',
+          kind: 'method',
+          className: 'UserService',
+          isStatic: true,
+          visibility: 'protected',
+        },
+        {
+          name: '#load',
+          kind: 'method',
+          className: 'UserService',
+          isStatic: false,
+          visibility: 'private',
+        },
+      ]);
+      assert.deepStrictEqual(result?.signatures?.[0].params, [{ name: 'db', type: 'Database' }]);
+      assert.strictEqual(result?.signatures?.[1].returnType, 'number');
+      assert.strictEqual(result?.signatures?.[3].async, true);
+    });
+  });
+
+  describe('docs', () => {
+    test('should attach doc comments to exported symbols and public methods', () => {
+      const result = analyzer.analyzeContent(
+        `// User persistence helpers
+
+/** Loads users. */
+export class UserRepository {
+  /** Find a user by id. */
+  find(id: string) {}
+  /** Internal. */
+  private cache() {}
+}
+
+/** Shape of a user. */
+export interface User {}
+
+/**
+ * Create a user.
+ * @param name - Display name
+ */
+export const createUser = (name: string) => {};
+
+/** Not exported. */
+function helper() {}`,
+        '.ts',
+        'src/users.ts',
+      );
+
+      assert.strictEqual(result?.summary, 'User persistence helpers');
+      assert.deepStrictEqual(result?.docs, {
+        UserRepository: { summary: 'Loads users.' },
+        'UserRepository.find': { summary: 'Find a user by id.' },
+        User: { summary: 'Shape of a user.' },
+        createUser: { summary: 'Create a user.', params: { name: 'Display name' } },
+      });
+    });
+  });
+
+  describe('exports', () => {
+    test('should record every kind of exported declaration', () => {
+      const result = analyzer.analyzeContent(
+        `export class Store {}
+export enum Color { Red }
+export interface Options {}
+export type Id = string;
+export namespace Utils {}
+export declare function declared(): void;
+export const run = () => {}, limit = 5;
+function local() {}
+export { local as renamed };
+export default Store;`,
+        '.ts',
+        'src/store.ts',
+      );
+
+      assert.deepStrictEqual(result?.exportKinds, {
+        Store: 'class',
+        Color: 'enum',
+        Options: 'interface',
+        Id: 'type',
+        Utils: 'namespace',
+        declared: 'function',
+        run: 'function',
+        limit: 'variable',
+        renamed: 'function',
+        default: 'class',
+      });
+      assert.deepStrictEqual(result?.reExports, []);
+      assert.strictEqual(result?.barrel, false);
+    });
+
+    test('should record re-exports and flag barrel files', () => {
+      const result = analyzer.analyzeContent(
+        `import { helper as h } from './helpers.js';
+export * from './store.js';
+export * as models from './models/index.js';
+export { default as Button, type ButtonProps } from './Button.js';
+export { h as helper };`,
+        '.ts',
+        'src/index.ts',
+      );
+
+      assert.deepStrictEqual(result?.exports, ['models', 'Button', 'ButtonProps', 'helper']);
+      assert.deepStrictEqual(result?.reExports, [
+        { name: '*', source: './store.js' },
+        { name: 'models', imported: '*', source: './models/index.js' },
+        { name: 'Button', imported: 'default', source: './Button.js' },
+        { name: 'ButtonProps', imported: 'ButtonProps', source: './Button.js' },
+        { name: 'helper', imported: 'helper', source: './helpers.js' },
+      ]);
+      assert.deepStrictEqual(result?.imports, [
+        './helpers.js',
+        './store.js',
+        './models/index.js',
+        './Button.js',
+      ]);
+      assert.strictEqual(result?.barrel, true);
+    });
+
+    test('should record type-only imports and re-exports separately', () => {
+      const result = analyzer.analyzeContent(
+        `import type { User } from './user.js';
+import { type Role, type Permission } from './roles.js';
+import { type Config, load } from './config.js';
+import './polyfills.js';
+export type { Session } from './session.js';
+export { type Token } from './token.js';
+export type * from './models.js';`,
+        '.ts',
+        'src/index.ts',
+      );
+
+      assert.deepStrictEqual(result?.imports, ['./config.js', './polyfills.js']);
+      assert.deepStrictEqual(result?.typeImports, [
+        './user.js',
+        './roles.js',
+        './session.js',
+        './token.js',
+        './models.js',
+      ]);
+    });
+  });
+
+  describe('CommonJS', () => {
+    test('should record require calls, including destructured ones, as imports', () => {
+      const result = analyzer.analyzeContent(
+        `const express = require('express');
+const { readFile } = require('fs/promises');
+const { validate } = require('./validate.cjs');
+function load(require) { return require('./ignored'); }`,
+        '.cjs',
+        'src/app.cjs',
+      );
+
+      assert.deepStrictEqual(result?.imports, ['express', 'fs/promises', './validate.cjs']);
+    });
+
+    test('should record module.exports object properties as exports', () => {
+      const result = analyzer.analyzeContent(
+        `function list(req, res) {}
+module.exports = {
+  list,
+  /** Create a user. */
+  create: async (req, res) => {},
+  remove(id) {},
+};`,
+        '.cjs',
+        'src/users.cjs',
+      );
+
+      assert.deepStrictEqual(result?.exports, ['list', 'create', 'remove']);
+      assert.deepStrictEqual(
+        result?.signatures?.map(({ name, async, params }) => ({
+          name,
+          async,
+          params: params.map((param) => param.name),
+        })),
+        [
+          { name: 'list', async: false, params: ['req', 'res'] },
+          { name: 'create', async: true, params: ['req', 'res'] },
+          { name: 'remove', async: false, params: ['id'] },
+        ],
+      );
+      assert.deepStrictEqual(result?.docs, { create: { summary: 'Create a user.' } });
+    });
+
+    test('should record exports.name, module.exports.name and module.exports assignments', () => {
+      const result = analyzer.analyzeContent(
+        `exports.parse = function (input) {};
+module.exports.format = (value) => String(value);
+module.exports = createApp;
+if (exports.parse === undefined) {}`,
+        '.js',
+        'src/index.js',
+      );
+
+      assert.deepStrictEqual(result?.exports, ['parse', 'format', 'default']);
+      assert.deepStrictEqual(
+        result?.signatures?.map((signature) => signature.name),
+        ['parse', 'format'],
+      );
+    });
+
+    test('should parse .cjs files as scripts and .mjs files as modules', () => {
+      const consoleWarnMock = mock.method(console, 'warn', () => {});
+
+      const script = analyzer.analyzeContent(
+        'with (Math) { module.exports = max; }',
+        '.cjs',
+        'legacy.cjs',
+      );
+      const esModule = analyzer.analyzeContent(
+        "import { a } from './a.mjs';\nexport const b = await a();",
+        '.mjs',
+        'b.mjs',
+      );
+
+      assert.deepStrictEqual(script?.exports, ['default']);
+      assert.deepStrictEqual(esModule?.imports, ['./a.mjs']);
+      assert.deepStrictEqual(esModule?.exports, ['b']);
+      consoleWarnMock.mock.restore();
+    });
+  });
+
+  describe('dynamic imports', () => {
+    test('should record import() calls with static specifiers separately from imports', () => {
+      const result = analyzer.analyzeContent(
+        `import { lazy } from 'react';
+const Settings = lazy(() => import('./pages/Settings'));
+export async function loadPlugin(name) {
+  await import(\`./plugins/\${name}.js\`);
+  return import(\`./plugins/default.js\`);
+}`,
+        '.jsx',
+        'src/routes.jsx',
+      );
+
+      assert.deepStrictEqual(result?.imports, ['react']);
+      assert.deepStrictEqual(result?.dynamicImports, ['./pages/Settings', './plugins/default.js']);
+    });
+  });
+
+  describe('Vue single-file components', () => {
+    test('should analyze <script setup> with type-based props and emits', () => {
+      const result = analyzer.analyzeContent(
+        `<template>
+  <UserAvatar :user="user" />
+  <template v-if="editing">
+    <base-input v-model="name" />
+  </template>
+  <Transition><p>{{ title }}</p></Transition>
+</template>
+
+<script setup lang="ts">
+import { computed } from 'vue';
+import UserAvatar from './UserAvatar.vue';
+
+interface Props {
+  title: string;
+  size?: 'sm' | 'lg';
+}
+
+const props = withDefaults(defineProps<Props>(), { size: 'sm' });
+const emit = defineEmits<{ (e: 'save', id: number): void; (e: 'cancel' | 'close'): void }>();
+const name = defineModel<string>('name');
+const { user } = useUser();
+const route = useRoute();
+
+function save(): void {
+  emit('save', 1);
+}
+</script>
+
+<style scoped>
+p { color: red; }
+</style>`,
+        '.vue',
+        'src/components/UserCard.vue',
+      );
+
+      assert.strictEqual(result?.type, 'component');
+      assert.deepStrictEqual(result?.imports, ['vue', './UserAvatar.vue']);
+      // Line numbers refer to the .vue file
+      assert.deepStrictEqual(result?.locations?.functions, [{ name: 'save', line: 24 }]);
+      assert.deepStrictEqual(result?.components, [
+        {
+          name: 'UserCard',
+          file: 'src/components/UserCard.vue',
+          line: 1,
+          props: ['title', 'size', 'name'],
+          emits: ['save', 'cancel', 'close', 'update:name'],
+          composables: ['useUser', 'useRoute'],
+          children: ['UserAvatar', 'BaseInput'],
+        },
+      ]);
+    });
+
+    test('should analyze Options API components', () => {
+      const result = analyzer.analyzeContent(
+        `<script>
+import { defineComponent } from 'vue';
+
+export default defineComponent({
+  name: 'TodoItem',
+  props: { todo: Object, done: { type: Boolean, default: false } },
+  emits: ['toggle'],
+});
+</script>
+
+<template>
+  <li @click="$emit('toggle')">{{ todo.text }}</li>
+</template>`,
+        '.vue',
+        'src/components/todo-item.vue',
+      );
+
+      assert.deepStrictEqual(result?.exports, ['default']);
+      assert.deepStrictEqual(result?.components, [
+        {
+          name: 'TodoItem',
+          file: 'src/components/todo-item.vue',
+          line: 1,
+          props: ['todo', 'done'],
+          emits: ['toggle'],
+          composables: [],
+          children: [],
+        },
+      ]);
+    });
+  });
+
+  describe('Svelte and Astro components', () => {
+    test('should read Svelte 4 props from export let', () => {
+      const result = analyzer.analyzeContent(
+        `<script context="module">
+  export const prerender = true;
+</script>
+
+<script>
+  import Icon from './Icon.svelte';
+  export let label;
+  export let disabled = false;
+  let pressed = false;
+</script>
+
+<button {disabled} on:click={() => (pressed = true)}><Icon name="check" />{label}</button>
+
+<style>button { color: red; }</style>`,
+        '.svelte',
+        'src/lib/Button.svelte',
+      );
+
+      assert.strictEqual(result?.type, 'component');
+      assert.deepStrictEqual(result?.imports, ['./Icon.svelte']);
+      assert.deepStrictEqual(result?.components, [
+        {
+          name: 'Button',
+          file: 'src/lib/Button.svelte',
+          line: 1,
+          props: ['label', 'disabled'],
+          children: ['Icon'],
+        },
+      ]);
+    });
+
+    test('should read Svelte 5 props from $props()', () => {
+      const result = analyzer.analyzeContent(
+        `<script lang="ts">
+  interface Props {
+    title: string;
+    items: string[];
+  }
+  let { title, items = [] }: Props = $props();
+</script>
+
+<h2>{title}</h2>
+{#each items as item}<Row {item} />{/each}`,
+        '.svelte',
+        'src/lib/List.svelte',
+      );
+      const typed = analyzer.analyzeContent(
+        `<script lang="ts">
+  const props: { open: boolean; onclose: () => void } = $props();
+</script>`,
+        '.svelte',
+        'src/lib/Modal.svelte',
+      );
+
+      assert.deepStrictEqual(result?.components?.[0].props, ['title', 'items']);
+      assert.deepStrictEqual(result?.components?.[0].children, ['Row']);
+      assert.deepStrictEqual(typed?.components?.[0].props, ['open', 'onclose']);
+    });
+
+    test('should read Astro props and template components', () => {
+      const result = analyzer.analyzeContent(
+        `---
+import Layout from '../layouts/Layout.astro';
+import Card from '../components/Card.astro';
+
+interface Props {
+  title: string;
+  tags?: string[];
+}
+
+const { title, description = '' } = Astro.props;
+const posts = await getPosts();
+---
+
+<Layout title={title}>
+  <Fragment>
+    {posts.map((post) => <Card post={post} />)}
+  </Fragment>
+</Layout>`,
+        '.astro',
+        'src/pages/blog.astro',
+      );
+
+      assert.strictEqual(result?.type, 'component');
+      assert.deepStrictEqual(result?.imports, [
+        '../layouts/Layout.astro',
+        '../components/Card.astro',
+      ]);
+      assert.deepStrictEqual(result?.components, [
+        {
+          name: 'blog',
+          file: 'src/pages/blog.astro',
+          line: 1,
+          props: ['title', 'tags', 'description'],
+          children: ['Layout', 'Card'],
+        },
+      ]);
+    });
+  });
+
+  describe('directives', () => {
+    test("should record 'use client' and 'use server' directives", () => {
+      const client = analyzer.analyzeContent(
+        `'use client';
+export default function Counter() {
+  return null;
+}`,
+        '.tsx',
+        'app/counter.tsx',
+      );
+      const server = analyzer.analyzeContent(
+        `'use strict';
+export async function save() {}`,
+        '.ts',
+        'app/actions.ts',
+      );
+
+      assert.deepStrictEqual(client?.directives, ['use client']);
+      assert.deepStrictEqual(server?.directives, []);
+    });
+  });
+
   describe('parseFile', () => {
     test('should handle TypeScript syntax', () => {
       // The parseFile method should correctly configure Babel for TS
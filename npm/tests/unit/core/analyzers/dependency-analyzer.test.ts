@@ -0,0 +1,176 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { DependencyAnalyzer } from '../../../../dist/core/analyzers/dependency-analyzer.js';
+
+import type { DependencyGraph, FileAnalysis } from '../../../../dist/core/types.js';
+
+describe('DependencyAnalyzer', () => {
+  const analyzer = new DependencyAnalyzer();
+
+  function file(path: string, imports: string[]): FileAnalysis {
+    return { path, type: 'utility', exports: [], imports, functions: [], classes: [] };
+  }
+
+  test('should build imports and reverse importedBy edges', () => {
+    const graph = analyzer.analyze(
+      [
+        file('src/index.ts', ['./app.js', './utils', 'express', 'fs']),
+        file('src/app.ts', ['./utils/index.js', './missing.js']),
+        file('src/utils/index.ts', []),
+      ],
+      ['src/index.ts', 'src/app.ts', 'src/utils/index.ts'],
+    );
+
+    assert.deepStrictEqual(graph, {
+      'src/app.ts': {
+        imports: ['src/utils/index.ts'],
+        importedBy: ['src/index.ts'],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: [],
+        unresolved: ['./missing.js'],
+      },
+      'src/index.ts': {
+        imports: ['src/app.ts', 'src/utils/index.ts'],
+        importedBy: [],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: ['express', 'node:fs'],
+        unresolved: [],
+      },
+      'src/utils/index.ts': {
+        imports: [],
+        importedBy: ['src/app.ts', 'src/index.ts'],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: [],
+        unresolved: [],
+      },
+    });
+  });
+
+  test('should include imported non-code files and deduplicate edges', () => {
+    const graph = analyzer.analyze(
+      [file('src/config.ts', ['../package.json', '../package.json', 'lodash/merge', 'lodash'])],
+      ['package.json', 'src/config.ts'],
+    );
+
+    assert.deepStrictEqual(graph['src/config.ts'].imports, ['package.json']);
+    assert.deepStrictEqual(graph['src/config.ts'].packages, ['lodash']);
+    assert.deepStrictEqual(graph['package.json'].importedBy, ['src/config.ts']);
+  });
+
+  test('should keep lazily imported files as separate dynamic edges', () => {
+    const graph = analyzer.analyze(
+      [
+        {
+          ...file('src/router.ts', ['./home.js']),
+          dynamicImports: ['./home.js', './admin', 'chart.js'],
+        },
+        file('src/home.ts', []),
+        file('src/admin.ts', []),
+      ],
+      [],
+    );
+
+    assert.deepStrictEqual(graph['src/router.ts'].imports, ['src/home.ts']);
+    assert.deepStrictEqual(graph['src/router.ts'].dynamicImports, ['src/admin.ts']);
+    assert.deepStrictEqual(graph['src/router.ts'].packages, ['chart.js']);
+    assert.deepStrictEqual(graph['src/admin.ts'].dynamicImportedBy, ['src/router.ts']);
+    assert.deepStrictEqual(graph['src/home.ts'].dynamicImportedBy, []);
+  });
+
+  describe('findCycles', () => {
+    test('should report the shortest cycle of each strongly connected group', () => {
+      // a -> b -> c -> a is the only way around, d -> e -> d is shorter than d -> f -> g -> d
+      const graph = analyzer.analyze(
+        [
+          file('a.ts', ['./b']),
+          file('b.ts', ['./c']),
+          file('c.ts', ['./a', './shared']),
+          file('d.ts', ['./f', './e']),
+          file('e.ts', ['./d']),
+          file('f.ts', ['./g']),
+          file('g.ts', ['./d']),
+          file('shared.ts', []),
+        ],
+        [],
+      );
+
+      assert.deepStrictEqual(analyzer.findCycles(graph), [
+        { files: ['a.ts', 'b.ts', 'c.ts'], path: ['a.ts', 'b.ts', 'c.ts', 'a.ts'] },
+        { files: ['d.ts', 'e.ts', 'f.ts', 'g.ts'], path: ['d.ts', 'e.ts', 'd.ts'] },
+      ]);
+    });
+
+    test('should report files importing themselves', () => {
+      const graph = analyzer.analyze([file('self.ts', ['./self.js'])], []);
+
+      assert.deepStrictEqual(analyzer.findCycles(graph), [
+        { files: ['self.ts'], path: ['self.ts', 'self.ts'] },
+      ]);
+    });
+
+    test('should ignore cycles closed by dynamic imports', () => {
+      const graph = analyzer.analyze(
+        [file('a.ts', ['./b']), { ...file('b.ts', []), dynamicImports: ['./a'] }],
+        [],
+      );
+
+      assert.deepStrictEqual(analyzer.findCycles(graph), []);
+    });
+
+    test('should ignore cycles closed by type-only imports', () => {
+      const graph = analyzer.analyze(
+        [
+          { ...file('src/a.ts', []), typeImports: ['./b.js'] },
+          { ...file('src/b.ts', []), typeImports: ['./a.js'] },
+        ],
+        [],
+      );
+
+      assert.deepStrictEqual(graph['src/a.ts'].typeImports, ['src/b.ts']);
+      assert.deepStrictEqual(graph['src/a.ts'].typeImportedBy, ['src/b.ts']);
+      assert.deepStrictEqual(analyzer.findCycles(graph), []);
+    });
+
+    test('should handle import chains deeper than the call stack', () => {
+      // f0 -> f1 -> ... -> f19999, built directly since resolving this many imports is slow
+      const depth = 20000;
+      const graph: DependencyGraph = {};
+      for (let i = 0; i < depth; i++) {
+        graph[`f${i}.ts`] = {
+          imports: i + 1 < depth ? [`f${i + 1}.ts`] : [],
+          importedBy: i > 0 ? [`f${i - 1}.ts`] : [],
+          dynamicImports: [],
+          dynamicImportedBy: [],
+          typeImports: [],
+          typeImportedBy: [],
+          packages: [],
+          unresolved: [],
+        };
+      }
+      graph['f19999.ts'].imports.push('f19998.ts');
+
+      assert.deepStrictEqual(analyzer.findCycles(graph), [
+        { files: ['f19998.ts', 'f19999.ts'], path: ['f19998.ts', 'f19999.ts', 'f19998.ts'] },
+      ]);
+    });
+
+    test('should return no cycles for an acyclic graph', () => {
+      const graph = analyzer.analyze(
+        [file('a.ts', ['./b', './c']), file('b.ts', ['./c']), file('c.ts', [])],
+        [],
+      );
+
+      assert.deepStrictEqual(analyzer.findCycles(graph), []);
+    });
+  });
+});
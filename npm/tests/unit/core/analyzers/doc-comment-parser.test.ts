@@ -0,0 +1,102 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { parse } from '@babel/parser';
+
+import { DocCommentParser } from '../../../../dist/core/analyzers/doc-comment-parser.js';
+
+describe('DocCommentParser', () => {
+  const parser = new DocCommentParser();
+
+  function summarize(content: string): string | undefined {
+    const ast = parse(content, { sourceType: 'module', plugins: ['typescript'] });
+    return parser.parseFileSummary(ast.program, ast.comments || [], content);
+  }
+
+  function docOf(content: string): ReturnType<DocCommentParser['parseSymbolDoc']> {
+    const ast = parse(content, { sourceType: 'module', plugins: ['typescript'] });
+    return parser.parseSymbolDoc(ast.program.body[0].leadingComments);
+  }
+
+  describe('parseSymbolDoc', () => {
+    test('should extract the first sentence and supported tags', () => {
+      const doc = docOf(`/**
+ * Fetch a user by id. Falls back to the cache
+ * when the database is unavailable.
+ *
+ * @param {string} id - The user id
+ * @param [options.retries=3] Number of retries
+ * @returns {Promise<User>} The user, or null when
+ *   nothing was found
+ * @deprecated Use getUser() instead
+ * @see getUser
+ */
+export function fetchUser() {}`);
+
+      assert.deepStrictEqual(doc, {
+        summary: 'Fetch a user by id.',
+        params: { id: 'The user id', 'options.retries': 'Number of retries' },
+        returns: 'The user, or null when nothing was found',
+        deprecated: 'Use getUser() instead',
+      });
+    });
+
+    test('should parse tags of single-line blocks', () => {
+      assert.deepStrictEqual(docOf('/** @param id user id */\nexport function get(id) {}'), {
+        params: { id: 'user id' },
+      });
+      assert.deepStrictEqual(
+        docOf(
+          '/** Load a user. @param {string} id - user id @returns the user */\nexport function load(id) {}',
+        ),
+        { summary: 'Load a user.', params: { id: 'user id' }, returns: 'the user' },
+      );
+      // Inline tags stay part of the text
+      assert.deepStrictEqual(docOf('/** Wraps {@link fetch}. */\nexport function get() {}'), {
+        summary: 'Wraps {@link fetch}.',
+      });
+    });
+
+    test('should mark bare @deprecated tags as true', () => {
+      assert.deepStrictEqual(docOf('/** @deprecated */\nexport const old = 1;'), {
+        deprecated: true,
+      });
+    });
+
+    test('should ignore non-JSDoc comments', () => {
+      assert.strictEqual(docOf('/* Plain block */\nexport const a = 1;'), undefined);
+      assert.strictEqual(docOf('// Line comment\nexport const a = 1;'), undefined);
+    });
+  });
+
+  describe('parseFileSummary', () => {
+    test('should use a header comment followed by a blank line', () => {
+      assert.strictEqual(
+        summarize('// Types related to file analysis. More text.\n\nexport const a = 1;'),
+        'Types related to file analysis.',
+      );
+    });
+
+    test('should use a header comment directly above imports', () => {
+      assert.strictEqual(
+        summarize(
+          '/**\n * Worker thread entry point\n * for parallel analysis\n */\nimport { a } from "./a";',
+        ),
+        'Worker thread entry point for parallel analysis',
+      );
+    });
+
+    test('should not use the doc comment of the first declaration', () => {
+      assert.strictEqual(summarize('/** Adds numbers. */\nexport function add() {}'), undefined);
+    });
+
+    test('should use @file tags and skip license and tooling comments', () => {
+      assert.strictEqual(
+        summarize(
+          '/* eslint-disable */\n/*! Copyright 2024 */\n/**\n * @file Route handlers for users.\n */\nexport function add() {}',
+        ),
+        'Route handlers for users.',
+      );
+    });
+  });
+});
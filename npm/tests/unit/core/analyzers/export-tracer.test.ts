@@ -0,0 +1,94 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { ExportTracer } from '../../../../dist/core/analyzers/export-tracer.js';
+import { ModuleResolver } from '../../../../dist/core/analyzers/module-resolver.js';
+
+import type { FileAnalysis } from '../../../../dist/core/types.js';
+
+describe('ExportTracer', () => {
+  function file(
+    path: string,
+    exportKinds: FileAnalysis['exportKinds'],
+    reExports: FileAnalysis['reExports'] = [],
+  ): FileAnalysis {
+    return {
+      path,
+      type: 'utility',
+      exports: [],
+      imports: [],
+      functions: [],
+      classes: [],
+      exportKinds,
+      reExports,
+    };
+  }
+
+  function createTracer(files: FileAnalysis[]): ExportTracer {
+    return new ExportTracer(files, new ModuleResolver(files.map((entry) => entry.path)));
+  }
+
+  test('should trace named re-exports through intermediate barrels', () => {
+    const tracer = createTracer([
+      file('src/index.ts', {}, [{ name: 'Button', imported: 'Button', source: './ui' }]),
+      file('src/ui/index.ts', {}, [{ name: 'Button', imported: 'default', source: './Button' }]),
+      file('src/ui/Button.tsx', { default: 'function' }),
+    ]);
+
+    assert.deepStrictEqual(tracer.getExports('src/index.ts'), [
+      {
+        name: 'Button',
+        definedIn: 'src/ui/Button.tsx',
+        localName: 'default',
+        kind: 'function',
+        source: './ui',
+      },
+    ]);
+  });
+
+  test('should expand export * without default and let explicit exports win', () => {
+    const tracer = createTracer([
+      file('src/index.ts', { format: 'variable' }, [{ name: '*', source: './utils' }]),
+      file('src/utils.ts', { default: 'function', format: 'function', parse: 'function' }),
+    ]);
+
+    assert.deepStrictEqual(tracer.getExports('src/index.ts'), [
+      { name: 'format', definedIn: 'src/index.ts', kind: 'variable' },
+      { name: 'parse', definedIn: 'src/utils.ts', kind: 'function', source: './utils' },
+    ]);
+  });
+
+  test('should keep namespace and package re-exports without tracing into them', () => {
+    const tracer = createTracer([
+      file('src/index.ts', {}, [
+        { name: 'models', imported: '*', source: './models' },
+        { name: 'z', imported: 'z', source: 'zod' },
+        { name: '*', source: 'lodash' },
+      ]),
+      file('src/models.ts', { User: 'interface' }),
+    ]);
+
+    assert.deepStrictEqual(tracer.getExports('src/index.ts'), [
+      {
+        name: 'models',
+        definedIn: 'src/models.ts',
+        kind: 'namespace',
+        source: './models',
+      },
+      { name: 'z', definedIn: undefined, kind: undefined, source: 'zod' },
+      { name: '*', source: 'lodash' },
+    ]);
+  });
+
+  test('should not loop on circular re-exports', () => {
+    const tracer = createTracer([
+      file('src/a.ts', { a: 'function' }, [{ name: '*', source: './b' }]),
+      file('src/b.ts', { b: 'function' }, [{ name: '*', source: './a' }]),
+    ]);
+
+    assert.deepStrictEqual(
+      tracer.getExports('src/a.ts').map((entry) => entry.name),
+      ['a', 'b'],
+    );
+  });
+});
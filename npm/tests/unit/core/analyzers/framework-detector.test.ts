@@ -149,6 +149,41 @@ describe('FrameworkDetector', () => {
       assert.ok(fastify!.features.includes('sessions'));
     });
 
+    test('should detect Koa, Hono, Hapi and Elysia with their plugins', async () => {
+      const mockProjectInfo: ProjectInfo = {
+        name: 'services',
+        type: 'typescript',
+        category: 'backend-api',
+        packageManager: 'npm',
+        dependencies: {
+          koa: '^2.15.0',
+          '@koa/router': '^12.0.0',
+          hono: '^4.0.0',
+          '@hono/zod-validator': '^0.2.0',
+          '@hapi/hapi': '^21.0.0',
+          '@hapi/inert': '^7.0.0',
+          elysia: '^1.0.0',
+          '@elysiajs/swagger': '^1.0.0',
+        },
+        devDependencies: {},
+        scripts: {},
+        entryPoints: [],
+        outputTargets: [],
+      };
+
+      const frameworks = await detector.detect(mockProjectInfo);
+
+      assert.deepStrictEqual(
+        frameworks.map(({ name, version, features }) => ({ name, version, features })),
+        [
+          { name: 'koa', version: '^2.15.0', features: ['routing'] },
+          { name: 'hono', version: '^4.0.0', features: ['validation'] },
+          { name: 'hapi', version: '^21.0.0', features: ['static-files'] },
+          { name: 'elysia', version: '^1.0.0', features: ['swagger'] },
+        ],
+      );
+    });
+
     test('should detect NestJS framework', async () => {
       const mockProjectInfo: ProjectInfo = {
         name: 'nestjs-app',
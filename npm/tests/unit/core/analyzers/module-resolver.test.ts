@@ -0,0 +1,154 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { ModuleResolver } from '../../../../dist/core/analyzers/module-resolver.js';
+
+describe('ModuleResolver', () => {
+  const resolver = new ModuleResolver([
+    'src/index.ts',
+    'src/utils/format.ts',
+    'src/utils/index.ts',
+    'src/components/Button.tsx',
+    'src/legacy/helper.js',
+    'src/data/config.json',
+  ]);
+
+  describe('relative imports', () => {
+    test('should resolve exact paths', () => {
+      assert.deepStrictEqual(resolver.resolve('./legacy/helper.js', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/legacy/helper.js',
+      });
+      assert.deepStrictEqual(resolver.resolve('../data/config.json', 'src/utils/format.ts'), {
+        kind: 'file',
+        path: 'src/data/config.json',
+      });
+    });
+
+    test('should resolve extension-less paths', () => {
+      assert.deepStrictEqual(resolver.resolve('./utils/format', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/utils/format.ts',
+      });
+      assert.deepStrictEqual(resolver.resolve('./components/Button', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/components/Button.tsx',
+      });
+    });
+
+    test('should resolve directory index files', () => {
+      assert.deepStrictEqual(resolver.resolve('./utils', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/utils/index.ts',
+      });
+      assert.deepStrictEqual(resolver.resolve('.', 'src/utils/format.ts'), {
+        kind: 'file',
+        path: 'src/utils/index.ts',
+      });
+    });
+
+    test('should resolve .js specifiers to TypeScript sources', () => {
+      assert.deepStrictEqual(resolver.resolve('./format.js', 'src/utils/index.ts'), {
+        kind: 'file',
+        path: 'src/utils/format.ts',
+      });
+      assert.deepStrictEqual(resolver.resolve('../components/Button.js', 'src/utils/index.ts'), {
+        kind: 'file',
+        path: 'src/components/Button.tsx',
+      });
+    });
+
+    test('should report missing files as unresolved', () => {
+      assert.deepStrictEqual(resolver.resolve('./missing', 'src/index.ts'), {
+        kind: 'unresolved',
+      });
+    });
+  });
+
+  describe('bare imports', () => {
+    test('should resolve package names without subpaths', () => {
+      assert.deepStrictEqual(resolver.resolve('lodash/merge', 'src/index.ts'), {
+        kind: 'package',
+        name: 'lodash',
+      });
+      assert.deepStrictEqual(resolver.resolve('@babel/traverse/lib/index.js', 'src/index.ts'), {
+        kind: 'package',
+        name: '@babel/traverse',
+      });
+    });
+
+    test('should normalize node builtins to the node: prefix', () => {
+      assert.deepStrictEqual(resolver.resolve('fs/promises', 'src/index.ts'), {
+        kind: 'package',
+        name: 'node:fs/promises',
+      });
+      assert.deepStrictEqual(resolver.resolve('node:path', 'src/index.ts'), {
+        kind: 'package',
+        name: 'node:path',
+      });
+    });
+
+    test('should not treat subpath imports or URLs as packages', () => {
+      assert.deepStrictEqual(resolver.resolve('#internal/db', 'src/index.ts'), {
+        kind: 'unresolved',
+      });
+      assert.deepStrictEqual(resolver.resolve('https://esm.sh/react', 'src/index.ts'), {
+        kind: 'unresolved',
+      });
+    });
+  });
+
+  describe('path aliases', () => {
+    const aliasResolver = new ModuleResolver(
+      ['src/components/Button.tsx', 'src/lib/db/index.ts', 'src/env.ts', 'lib/shared.ts'],
+      {
+        baseUrl: 'src',
+        paths: {
+          '@/*': ['src/*'],
+          '@/lib/*': ['src/lib/*'],
+          '~/*': ['missing/*', 'lib/*'],
+          env: ['src/env.ts'],
+        },
+      },
+    );
+
+    test('should resolve wildcard aliases', () => {
+      assert.deepStrictEqual(aliasResolver.resolve('@/components/Button', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/components/Button.tsx',
+      });
+      assert.deepStrictEqual(aliasResolver.resolve('@/lib/db', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/lib/db/index.ts',
+      });
+    });
+
+    test('should try alias targets in order and match exact patterns', () => {
+      assert.deepStrictEqual(aliasResolver.resolve('~/shared.js', 'src/index.ts'), {
+        kind: 'file',
+        path: 'lib/shared.ts',
+      });
+      assert.deepStrictEqual(aliasResolver.resolve('env', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/env.ts',
+      });
+    });
+
+    test('should resolve non-relative imports from baseUrl', () => {
+      assert.deepStrictEqual(aliasResolver.resolve('components/Button', 'src/index.ts'), {
+        kind: 'file',
+        path: 'src/components/Button.tsx',
+      });
+    });
+
+    test('should fall back to packages when no alias target exists', () => {
+      assert.deepStrictEqual(aliasResolver.resolve('react', 'src/index.ts'), {
+        kind: 'package',
+        name: 'react',
+      });
+      assert.deepStrictEqual(aliasResolver.resolve('@/missing', 'src/index.ts'), {
+        kind: 'unresolved',
+      });
+    });
+  });
+});
@@ -0,0 +1,448 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { PageAnalyzer } from '../../../../dist/core/analyzers/page-analyzer.js';
+
+import type { FileAnalysis, ProjectInfo } from '../../../../dist/core/types.js';
+
+describe('PageAnalyzer', () => {
+  const analyzer = new PageAnalyzer();
+
+  const projectInfo: ProjectInfo = {
+    name: 'my-app',
+    type: 'typescript',
+    category: 'frontend-web',
+    packageManager: 'npm',
+    dependencies: { next: '^15.0.0' },
+    devDependencies: {},
+  };
+
+  const file = (path: string, extra: Partial<FileAnalysis> = {}): FileAnalysis => ({
+    path,
+    type: 'component',
+    exports: ['default'],
+    imports: [],
+    functions: [],
+    classes: [],
+    ...extra,
+  });
+
+  test('should map App Router files to their routes', () => {
+    const result = analyzer.analyze(
+      projectInfo,
+      [
+        file('app/layout.tsx'),
+        file('app/page.tsx'),
+        file('app/(marketing)/about/page.tsx'),
+        file('app/blog/[slug]/page.tsx', { directives: ['use client'] }),
+        file('app/blog/[slug]/loading.tsx'),
+        file('app/shop/[...categories]/error.tsx', { directives: ['use client'] }),
+        file('app/dashboard/@analytics/default.tsx'),
+        file('app/dashboard/_components/chart.tsx'),
+        file('app/api/users/route.ts'),
+        file('src/app/not-found.tsx'),
+      ],
+      [],
+    );
+
+    assert.deepStrictEqual(result?.pages, [
+      {
+        route: '/',
+        kind: 'layout',
+        file: 'app/layout.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: undefined,
+        groups: undefined,
+        slot: undefined,
+      },
+      {
+        route: '/',
+        kind: 'page',
+        file: 'app/page.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: undefined,
+        groups: undefined,
+        slot: undefined,
+      },
+      {
+        route: '/',
+        kind: 'not-found',
+        file: 'src/app/not-found.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: undefined,
+        groups: undefined,
+        slot: undefined,
+      },
+      {
+        route: '/about',
+        kind: 'page',
+        file: 'app/(marketing)/about/page.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: undefined,
+        groups: ['marketing'],
+        slot: undefined,
+      },
+      {
+        route: '/blog/[slug]',
+        kind: 'loading',
+        file: 'app/blog/[slug]/loading.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: ['slug'],
+        groups: undefined,
+        slot: undefined,
+      },
+      {
+        route: '/blog/[slug]',
+        kind: 'page',
+        file: 'app/blog/[slug]/page.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'client',
+        params: ['slug'],
+        groups: undefined,
+        slot: undefined,
+      },
+      {
+        route: '/dashboard',
+        kind: 'default',
+        file: 'app/dashboard/@analytics/default.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'server',
+        params: undefined,
+        groups: undefined,
+        slot: 'analytics',
+      },
+      {
+        route: '/shop/[...categories]',
+        kind: 'error',
+        file: 'app/shop/[...categories]/error.tsx',
+        framework: 'next.js',
+        router: 'app',
+        rendering: 'client',
+        params: ['categories'],
+        groups: undefined,
+        slot: undefined,
+      },
+    ]);
+  });
+
+  test('should map Pages Router files and their data fetching', () => {
+    const result = analyzer.analyze(
+      projectInfo,
+      [
+        file('pages/_app.tsx'),
+        file('pages/index.tsx', { exports: ['default', 'getStaticProps'] }),
+        file('pages/posts/[id].tsx', {
+          exports: ['default', 'getStaticPaths', 'getStaticProps'],
+        }),
+        file('pages/docs/[[...slug]].tsx'),
+        file('pages/api/users.ts'),
+        file('src/components/pages/Home.tsx'),
+      ],
+      [],
+    );
+
+    assert.deepStrictEqual(
+      result?.pages.map(({ route, kind, file, params, dataFetching }) => ({
+        route,
+        kind,
+        file,
+        params,
+        dataFetching,
+      })),
+      [
+        {
+          route: '/',
+          kind: 'app',
+          file: 'pages/_app.tsx',
+          params: undefined,
+          dataFetching: undefined,
+        },
+        {
+          route: '/',
+          kind: 'page',
+          file: 'pages/index.tsx',
+          params: undefined,
+          dataFetching: ['getStaticProps'],
+        },
+        {
+          route: '/docs/[[...slug]]',
+          kind: 'page',
+          file: 'pages/docs/[[...slug]].tsx',
+          params: ['slug'],
+          dataFetching: undefined,
+        },
+        {
+          route: '/posts/[id]',
+          kind: 'page',
+          file: 'pages/posts/[id].tsx',
+          params: ['id'],
+          dataFetching: ['getStaticProps', 'getStaticPaths'],
+        },
+      ],
+    );
+  });
+
+  test('should include the middleware file and its matcher', () => {
+    const result = analyzer.analyze(
+      projectInfo,
+      [file('middleware.ts', { middlewareMatcher: ['/dashboard/:path*'] })],
+      [],
+    );
+
+    assert.deepStrictEqual(result, {
+      pages: [],
+      middleware: { file: 'middleware.ts', matcher: ['/dashboard/:path*'] },
+    });
+  });
+
+  test('should map SvelteKit route files, including files that are only listed', () => {
+    const result = analyzer.analyze(
+      { ...projectInfo, dependencies: { '@sveltejs/kit': '^2.0.0' } },
+      [
+        file('src/routes/blog/[slug]/+page.server.ts', { exports: ['load', 'actions'] }),
+        file('src/routes/api/items/[id=integer]/+server.ts', { exports: ['GET', 'DELETE'] }),
+      ],
+      [
+        'src/routes/+layout.svelte',
+        'src/routes/(app)/dashboard/+page.svelte',
+        'src/routes/blog/[slug]/+page.svelte',
+        'src/routes/blog/[slug]/+page.server.ts',
+        'src/routes/api/items/[id=integer]/+server.ts',
+        'src/lib/Button.svelte',
+      ],
+    );
+
+    assert.deepStrictEqual(
+      result.pages.map(
+        ({ route, kind, file, rendering, params, groups, dataFetching, methods }) => ({
+          route,
+          kind,
+          file,
+          rendering,
+          params,
+          groups,
+          dataFetching,
+          methods,
+        }),
+      ),
+      [
+        {
+          route: '/',
+          kind: 'layout',
+          file: 'src/routes/+layout.svelte',
+          rendering: undefined,
+          params: undefined,
+          groups: undefined,
+          dataFetching: undefined,
+          methods: undefined,
+        },
+        {
+          route: '/api/items/[id=integer]',
+          kind: 'endpoint',
+          file: 'src/routes/api/items/[id=integer]/+server.ts',
+          rendering: undefined,
+          params: ['id'],
+          groups: undefined,
+          dataFetching: undefined,
+          methods: ['GET', 'DELETE'],
+        },
+        {
+          route: '/blog/[slug]',
+          kind: 'page',
+          file: 'src/routes/blog/[slug]/+page.server.ts',
+          rendering: 'server',
+          params: ['slug'],
+          groups: undefined,
+          dataFetching: ['load', 'actions'],
+          methods: undefined,
+        },
+        {
+          route: '/blog/[slug]',
+          kind: 'page',
+          file: 'src/routes/blog/[slug]/+page.svelte',
+          rendering: undefined,
+          params: ['slug'],
+          groups: undefined,
+          dataFetching: undefined,
+          methods: undefined,
+        },
+        {
+          route: '/dashboard',
+          kind: 'page',
+          file: 'src/routes/(app)/dashboard/+page.svelte',
+          rendering: undefined,
+          params: undefined,
+          groups: ['app'],
+          dataFetching: undefined,
+          methods: undefined,
+        },
+      ],
+    );
+  });
+
+  test('should map Nuxt pages and mark parent pages as layouts', () => {
+    const result = analyzer.analyze(
+      { ...projectInfo, dependencies: { nuxt: '^3.12.0' } },
+      [],
+      [
+        'app.vue',
+        'error.vue',
+        'pages/index.vue',
+        'pages/users.vue',
+        'pages/users/[id].vue',
+        'pages/docs/[[...slug]].vue',
+        'components/pages/Header.vue',
+      ],
+    );
+
+    assert.deepStrictEqual(
+      result.pages.map(({ route, kind, file, params }) => ({ route, kind, file, params })),
+      [
+        { route: '/', kind: 'error', file: 'error.vue', params: undefined },
+        { route: '/', kind: 'page', file: 'pages/index.vue', params: undefined },
+        {
+          route: '/docs/[[...slug]]',
+          kind: 'page',
+          file: 'pages/docs/[[...slug]].vue',
+          params: ['slug'],
+        },
+        { route: '/users', kind: 'layout', file: 'pages/users.vue', params: undefined },
+        { route: '/users/[id]', kind: 'page', file: 'pages/users/[id].vue', params: ['id'] },
+      ],
+    );
+  });
+
+  test('should map Remix flat routes', () => {
+    const result = analyzer.analyze(
+      { ...projectInfo, dependencies: { '@remix-run/react': '^2.0.0' } },
+      [
+        file('app/root.tsx', { exports: ['default', 'loader'] }),
+        file('app/routes/_index.tsx'),
+        file('app/routes/_auth.tsx'),
+        file('app/routes/_auth.login.tsx', { exports: ['default', 'action'] }),
+        file('app/routes/blog.$slug/route.tsx', { exports: ['default', 'loader'] }),
+        file('app/routes/blog.$slug/comments.tsx'),
+        file('app/routes/blog_.edit.tsx'),
+        file('app/routes/files.$.tsx', { exports: ['loader'] }),
+        file('app/routes/($lang).about.tsx'),
+        file('app/routes/sitemap[.]xml.ts', { exports: ['loader'] }),
+      ],
+      [],
+    );
+
+    assert.deepStrictEqual(
+      result.pages.map(({ route, kind, framework, file, params, dataFetching }) => ({
+        route,
+        kind,
+        framework,
+        file,
+        params,
+        dataFetching,
+      })),
+      [
+        {
+          route: '/',
+          kind: 'layout',
+          framework: 'remix',
+          file: 'app/root.tsx',
+          params: undefined,
+          dataFetching: ['loader'],
+        },
+        {
+          route: '/',
+          kind: 'layout',
+          framework: 'remix',
+          file: 'app/routes/_auth.tsx',
+          params: undefined,
+          dataFetching: undefined,
+        },
+        {
+          route: '/',
+          kind: 'page',
+          framework: 'remix',
+          file: 'app/routes/_index.tsx',
+          params: undefined,
+          dataFetching: undefined,
+        },
+        {
+          route: '/($lang)/about',
+          kind: 'page',
+          framework: 'remix',
+          file: 'app/routes/($lang).about.tsx',
+          params: ['lang'],
+          dataFetching: undefined,
+        },
+        {
+          route: '/blog/$slug',
+          kind: 'page',
+          framework: 'remix',
+          file: 'app/routes/blog.$slug/route.tsx',
+          params: ['slug'],
+          dataFetching: ['loader'],
+        },
+        {
+          route: '/blog/edit',
+          kind: 'page',
+          framework: 'remix',
+          file: 'app/routes/blog_.edit.tsx',
+          params: undefined,
+          dataFetching: undefined,
+        },
+        {
+          route: '/files/$',
+          kind: 'endpoint',
+          framework: 'remix',
+          file: 'app/routes/files.$.tsx',
+          params: ['*'],
+          dataFetching: ['loader'],
+        },
+        {
+          route: '/login',
+          kind: 'page',
+          framework: 'remix',
+          file: 'app/routes/_auth.login.tsx',
+          params: undefined,
+          dataFetching: ['action'],
+        },
+        {
+          route: '/sitemap.xml',
+          kind: 'endpoint',
+          framework: 'remix',
+          file: 'app/routes/sitemap[.]xml.ts',
+          params: undefined,
+          dataFetching: ['loader'],
+        },
+      ],
+    );
+  });
+
+  test('should include route objects found in the code', () => {
+    const routeObject = {
+      route: '/settings',
+      kind: 'page' as const,
+      framework: 'react-router' as const,
+      file: 'src/router.tsx',
+      line: 8,
+      component: 'Settings',
+    };
+    const result = analyzer.analyze(
+      { ...projectInfo, dependencies: { 'react-router': '^7.0.0' } },
+      [file('src/router.tsx', { pages: [routeObject] }), file('app/page.tsx')],
+      [],
+    );
+
+    assert.deepStrictEqual(result, { pages: [routeObject], middleware: undefined });
+  });
+});
@@ -42,6 +42,407 @@ describe('PatternDetector', () => {
       assert.strictEqual(patterns.endpoints[1].path, '/users');
     });
 
+    test('should prefix NestJS routes with the controller path and version', () => {
+      const code = `
+        @Controller({ path: 'cats', version: '1' })
+        export class CatsController {
+          @Get()
+          findAll() {}
+
+          @Get(':id')
+          @Version(['2', '3'])
+          findOne() {}
+        }
+
+        @Controller(['dogs', 'puppies'])
+        export class DogsController {
+          @Post('/')
+          create() {}
+        }
+      `;
+
+      const ast = parse(code, {
+        sourceType: 'module',
+        plugins: ['typescript', 'decorators-legacy'],
+      });
+
+      const patterns = detector.analyzePatterns(ast, 'cats.controller.ts', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, controller, versions }) => ({
+          method,
+          path,
+          controller,
+          versions,
+        })),
+        [
+          { method: 'GET', path: '/cats', controller: 'CatsController', versions: ['1'] },
+          { method: 'GET', path: '/cats/:id', controller: 'CatsController', versions: ['2', '3'] },
+          { method: 'POST', path: '/dogs', controller: 'DogsController', versions: undefined },
+          { method: 'POST', path: '/puppies', controller: 'DogsController', versions: undefined },
+        ],
+      );
+    });
+
+    test('should record Express handlers, middleware and route() chains', () => {
+      const code = `
+        const usersRouter = express.Router();
+        usersRouter.get('/', [auth, cache('1m')], controller.list);
+        usersRouter.route('/:id').get(getUser).put(auth, validate(schema), (req, res) => {});
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'routes/users.js', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler, middleware, router }) => ({
+          method,
+          path,
+          handler,
+          middleware,
+          router,
+        })),
+        [
+          {
+            method: 'GET',
+            path: '/',
+            handler: 'controller.list',
+            middleware: ['auth', 'cache'],
+            router: 'usersRouter',
+          },
+          {
+            method: 'GET',
+            path: '/:id',
+            handler: 'getUser',
+            middleware: undefined,
+            router: 'usersRouter',
+          },
+          {
+            method: 'PUT',
+            path: '/:id',
+            handler: 'anonymous',
+            middleware: ['auth', 'validate'],
+            router: 'usersRouter',
+          },
+        ],
+      );
+    });
+
+    test('should record Express router mounts and exported routers', () => {
+      const code = `
+        import usersRouter from './users.js';
+        const { ordersRouter } = require('./orders');
+        const router = Router();
+        router.use('/users', auth, usersRouter);
+        router.use('/orders', ordersRouter);
+        router.use('/legacy', require('./legacy'));
+        router.use(express.json());
+        export default router;
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'routes/index.js', code);
+
+      assert.deepStrictEqual(
+        patterns.mounts.map(({ router, path, source, importedName, middleware }) => ({
+          router,
+          path,
+          source,
+          importedName,
+          middleware,
+        })),
+        [
+          {
+            router: 'router',
+            path: '/users',
+            source: './users.js',
+            importedName: 'default',
+            middleware: ['auth'],
+          },
+          {
+            router: 'router',
+            path: '/orders',
+            source: './orders',
+            importedName: 'ordersRouter',
+            middleware: [],
+          },
+          {
+            router: 'router',
+            path: '/legacy',
+            source: './legacy',
+            importedName: 'default',
+            middleware: [],
+          },
+        ],
+      );
+      assert.deepStrictEqual(patterns.routerExports, { default: 'router' });
+    });
+
+    test('should detect Koa router routes with their prefix and mounts', () => {
+      const code = `
+        const router = new Router({ prefix: '/users' });
+        router.get('/:id', auth, getUser);
+        router.del('/:id', removeUser);
+        app.use(router.routes()).use(router.allowedMethods());
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'routes/users.js', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler, middleware }) => ({
+          method,
+          path,
+          handler,
+          middleware,
+        })),
+        [{ method: 'GET', path: '/users/:id', handler: 'getUser', middleware: ['auth'] }],
+      );
+      assert.deepStrictEqual(
+        patterns.mounts.map(({ router, path, target }) => ({ router, path, target })),
+        [{ router: 'app', path: '', target: 'router' }],
+      );
+    });
+
+    test('should detect Hono routes, base paths and sub-app mounts', () => {
+      const code = `
+        const books = new Hono()
+          .get('/', (c) => c.json([]))
+          .post('/', zValidator('json', schema), createBook);
+        const api = new Hono().basePath('/api');
+        api.on(['PUT', 'PATCH'], '/books/:id', updateBook);
+        api.route('/books', books);
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'api.ts', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler, router }) => ({
+          method,
+          path,
+          handler,
+          router,
+        })),
+        [
+          { method: 'GET', path: '/', handler: 'anonymous', router: 'books' },
+          { method: 'POST', path: '/', handler: 'createBook', router: 'books' },
+          { method: 'PUT', path: '/api/books/:id', handler: 'updateBook', router: 'api' },
+          { method: 'PATCH', path: '/api/books/:id', handler: 'updateBook', router: 'api' },
+        ],
+      );
+      assert.deepStrictEqual(
+        patterns.mounts.map(({ router, path, target }) => ({ router, path, target })),
+        [{ router: 'api', path: '/api/books', target: 'books' }],
+      );
+    });
+
+    test('should detect Hapi route configs', () => {
+      const code = `
+        server.route([
+          { method: 'GET', path: '/users/{id}', handler: users.get },
+          { method: ['PUT', 'PATCH'], path: '/users/{id}', options: { handler: updateUser } },
+        ]);
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'routes.js', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler }) => ({ method, path, handler })),
+        [
+          { method: 'GET', path: '/users/{id}', handler: 'users.get' },
+          { method: 'PUT', path: '/users/{id}', handler: 'updateUser' },
+          { method: 'PATCH', path: '/users/{id}', handler: 'updateUser' },
+        ],
+      );
+    });
+
+    test('should detect routes of Hapi servers under any name', () => {
+      const code = `
+        import Hapi from '@hapi/hapi';
+
+        const web = Hapi.server({ port: 3000 });
+        web.route({ method: 'GET', path: '/users', handler: listUsers });
+
+        const admin = new Hapi.Server();
+        admin.route({ method: 'DELETE', path: '/users/{id}', handler: deleteUser });
+
+        Hapi.Server({ port: 4000 }).route({ method: 'GET', path: '/health', handler: health });
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'server.js', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler, router }) => ({
+          method,
+          path,
+          handler,
+          router,
+        })),
+        [
+          { method: 'GET', path: '/users', handler: 'listUsers', router: 'web' },
+          { method: 'DELETE', path: '/users/{id}', handler: 'deleteUser', router: 'admin' },
+          { method: 'GET', path: '/health', handler: 'health', router: undefined },
+        ],
+      );
+    });
+
+    test('should detect Elysia routes with prefixes and groups', () => {
+      const code = `
+        export const users = new Elysia({ prefix: '/users' })
+          .get('/', listUsers)
+          .post('/', createUser, { body: t.Object({}) })
+          .group('/:id', (group) => group.get('/posts', listPosts));
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['typescript'] });
+
+      const patterns = detector.analyzePatterns(ast, 'users.ts', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler }) => ({ method, path, handler })),
+        [
+          { method: 'GET', path: '/users', handler: 'listUsers' },
+          { method: 'POST', path: '/users', handler: 'createUser' },
+          { method: 'GET', path: '/users/:id/posts', handler: 'listPosts' },
+        ],
+      );
+      assert.deepStrictEqual(patterns.routerExports, { users: 'users' });
+    });
+
+    test('should detect Fastify object routes with their schemas and hooks', () => {
+      const code = `
+        const userParams = { type: 'object', properties: { id: { type: 'string' } } } as const;
+
+        fastify.route({
+          method: ['GET', 'HEAD'],
+          url: '/users/:id',
+          schema: {
+            params: userParams,
+            response: { 200: UserSchema, 404: { type: 'null' } },
+          },
+          preHandler: [fastify.authenticate],
+          handler: getUser,
+        });
+        fastify.post('/users', { schema: { body: Type.Object({}) }, onRequest: rateLimit }, createUser);
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['typescript'] });
+
+      const patterns = detector.analyzePatterns(ast, 'routes/users.ts', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ method, path, handler, middleware, schema }) => ({
+          method,
+          path,
+          handler,
+          middleware,
+          schema,
+        })),
+        [
+          {
+            method: 'GET',
+            path: '/users/:id',
+            handler: 'getUser',
+            middleware: ['fastify.authenticate'],
+            schema: {
+              params: { type: 'object', properties: { id: { type: 'string' } } },
+              response: { 200: 'UserSchema', 404: { type: 'null' } },
+            },
+          },
+          {
+            method: 'HEAD',
+            path: '/users/:id',
+            handler: 'getUser',
+            middleware: ['fastify.authenticate'],
+            schema: {
+              params: { type: 'object', properties: { id: { type: 'string' } } },
+              response: { 200: 'UserSchema', 404: { type: 'null' } },
+            },
+          },
+          {
+            method: 'POST',
+            path: '/users',
+            handler: 'createUser',
+            middleware: ['rateLimit'],
+            schema: { body: 'Type.Object(...)' },
+          },
+        ],
+      );
+    });
+
+    test('should record Fastify plugins and their register() prefixes', () => {
+      const code = `
+        import usersRoutes from './routes/users.js';
+
+        const app = Fastify();
+        app.register(usersRoutes, { prefix: '/users' });
+        app.register(import('./routes/orders.js'), { prefix: '/orders' });
+        app.register(cors);
+        app.register(
+          async (instance) => {
+            instance.get('/health', health);
+          },
+          { prefix: '/v1' },
+        );
+
+        export default async function adminRoutes(fastify) {
+          fastify.get('/stats', stats);
+        }
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      const patterns = detector.analyzePatterns(ast, 'app.js', code);
+
+      assert.deepStrictEqual(
+        patterns.endpoints.map(({ path, router }) => ({ path, router })),
+        [
+          { path: '/v1/health', router: 'instance' },
+          { path: '/stats', router: 'adminRoutes' },
+        ],
+      );
+      assert.deepStrictEqual(
+        patterns.mounts.map(({ router, path, target, source }) => ({
+          router,
+          path,
+          target,
+          source,
+        })),
+        [
+          { router: 'app', path: '/users', target: 'usersRoutes', source: './routes/users.js' },
+          { router: 'app', path: '/orders', target: 'default', source: './routes/orders.js' },
+          { router: 'app', path: '', target: 'cors', source: undefined },
+        ],
+      );
+      assert.deepStrictEqual(patterns.routerExports, { default: 'adminRoutes' });
+    });
+
+    test('should detect the NestJS global prefix and URI versioning', () => {
+      const code = `
+        const app = await NestFactory.create(AppModule);
+        app.setGlobalPrefix('api');
+        app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' });
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['typescript'] });
+
+      const patterns = detector.analyzePatterns(ast, 'main.ts', code);
+
+      assert.deepStrictEqual(patterns.nestApp, {
+        globalPrefix: 'api',
+        versioning: { prefix: 'v', defaultVersion: ['1'] },
+      });
+    });
+
     test('should detect Express-style routes', () => {
       const code = `
         const express = require('express');
@@ -118,8 +519,109 @@ describe('PatternDetector', () => {
 
       const patterns = detector.analyzePatterns(ast, 'UserCard.jsx', code);
 
-      assert.strictEqual(patterns.components.length, 1); // Only UserCard has JSX return
-      assert.strictEqual(patterns.components[0].name, 'UserCard');
+      // RegularFunction does not return JSX
+      assert.deepStrictEqual(
+        patterns.components.map((component) => component.name),
+        ['UserCard', 'UserList'],
+      );
+    });
+
+    test('should detect wrapped, arrow and conditionally rendering components', () => {
+      const code = `
+        import { forwardRef, memo } from 'react';
+
+        export const Input = forwardRef<HTMLInputElement, InputProps>((props, ref) => (
+          <input ref={ref} {...props} />
+        ));
+
+        const Row = memo(function Row({ item }) {
+          if (!item) {
+            return null;
+          }
+          return <>{item.label}</>;
+        });
+
+        const Status = ({ loading }) => (loading ? <Spinner /> : <span>Ready</span>);
+
+        const Avatar = React.memo(({ user }) => user && <img src={user.url} />);
+
+        function Toolbar() {
+          const renderButton = () => <button />;
+          return renderButton();
+        }
+
+        const formatLabel = (label) => <b>{label}</b>;
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+      const patterns = detector.analyzePatterns(ast, 'components.tsx', code);
+
+      assert.deepStrictEqual(
+        patterns.components.map((component) => component.name),
+        ['Input', 'Row', 'Status', 'Avatar'],
+      );
+    });
+
+    test('should record props, hooks, contexts and rendered children', () => {
+      const code = `
+        interface CardProps {
+          title: string;
+          footer?: React.ReactNode;
+        }
+
+        export const Card: React.FC<CardProps> = ({ title }) => {
+          const [open, setOpen] = useState(false);
+          const theme = useContext(ThemeContext);
+          const user = use(UserContext);
+          const data = use(fetchData());
+          useEffect(() => setOpen(true), []);
+
+          return (
+            <ThemeContext.Provider value={theme}>
+              <SettingsContext value={{}}>
+                <Layout.Header title={title} />
+                {items.map((item) => <CardItem key={item.id} {...item} />)}
+                <React.Fragment><CardItem /></React.Fragment>
+                <LocaleContext.Consumer>{(locale) => locale}</LocaleContext.Consumer>
+              </SettingsContext>
+            </ThemeContext.Provider>
+          );
+        };
+
+        class Profile extends React.Component<{ userId: string }> {
+          static contextType = SessionContext;
+
+          render() {
+            return <Avatar size="sm" />;
+          }
+        }
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['typescript', 'jsx'] });
+      const patterns = detector.analyzePatterns(ast, 'Card.tsx', code);
+
+      assert.deepStrictEqual(patterns.components, [
+        {
+          name: 'Card',
+          file: 'Card.tsx',
+          line: 7,
+          props: ['title', 'footer'],
+          hooks: ['useState', 'useContext', 'useEffect'],
+          provides: ['ThemeContext', 'SettingsContext'],
+          consumes: ['ThemeContext', 'UserContext', 'LocaleContext'],
+          children: ['Layout.Header', 'CardItem'],
+        },
+        {
+          name: 'Profile',
+          file: 'Card.tsx',
+          line: 26,
+          props: ['userId'],
+          hooks: [],
+          provides: [],
+          consumes: ['SessionContext'],
+          children: ['Avatar'],
+        },
+      ]);
     });
 
     test('should detect React class components', () => {
@@ -151,6 +653,313 @@ describe('PatternDetector', () => {
     });
   });
 
+  describe('React Router route objects', () => {
+    test('should list nested route objects with their full paths', () => {
+      const code = `
+        const routes = [
+          {
+            path: '/',
+            element: <Root />,
+            loader: rootLoader,
+            children: [
+              { index: true, Component: Home },
+              { path: 'users/:id?', element: <Layouts.User />, action: updateUser },
+              { path: '/about', lazy: () => import('./routes/about') },
+              { path: '*', element: <NotFound /> },
+            ],
+          },
+        ];
+
+        export const router = createBrowserRouter(routes);
+      `;
+
+      const ast = parse(code, { sourceType: 'module', plugins: ['jsx'] });
+      const patterns = detector.analyzePatterns(ast, 'src/router.jsx', code);
+
+      assert.deepStrictEqual(
+        patterns.pages.map(({ route, kind, component, params, dataFetching }) => ({
+          route,
+          kind,
+          component,
+          params,
+          dataFetching,
+        })),
+        [
+          {
+            route: '/',
+            kind: 'layout',
+            component: 'Root',
+            params: undefined,
+            dataFetching: ['loader'],
+          },
+          {
+            route: '/',
+            kind: 'page',
+            component: 'Home',
+            params: undefined,
+            dataFetching: undefined,
+          },
+          {
+            route: '/users/:id?',
+            kind: 'page',
+            component: 'Layouts.User',
+            params: ['id'],
+            dataFetching: ['action'],
+          },
+          {
+            route: '/about',
+            kind: 'page',
+            component: './routes/about',
+            params: undefined,
+            dataFetching: undefined,
+          },
+          {
+            route: '/*',
+            kind: 'page',
+            component: 'NotFound',
+            params: ['*'],
+            dataFetching: undefined,
+          },
+        ],
+      );
+    });
+  });
+
+  describe('NestJS modules', () => {
+    test('should list the imports, controllers, providers and exports of modules', () => {
+      const code = `
+        @Global()
+        @Module({
+          imports: [ConfigModule.forRoot(), TypeOrmModule.forFeature([User]), forwardRef(() => AuthModule)],
+          controllers: [UsersController],
+          providers: [UsersService, { provide: APP_GUARD, useClass: RolesGuard }, { provide: 'CACHE', useValue: {} }],
+          exports: [UsersService],
+        })
+        export class UsersModule {}
+      `;
+
+      const ast = parse(code, {
+        sourceType: 'module',
+        plugins: ['typescript', 'decorators-legacy'],
+      });
+
+      const patterns = detector.analyzePatterns(ast, 'users.module.ts', code);
+
+      assert.deepStrictEqual(patterns.modules, [
+        {
+          name: 'UsersModule',
+          file: 'users.module.ts',
+          line: 2,
+          global: true,
+          imports: ['ConfigModule.forRoot', 'TypeOrmModule.forFeature', 'AuthModule'],
+          controllers: ['UsersController'],
+          providers: ['UsersService', 'APP_GUARD', 'CACHE'],
+          exports: ['UsersService'],
+        },
+      ]);
+    });
+  });
+
+  describe('Angular', () => {
+    const parseAngular = (code: string): ReturnType<typeof parse> =>
+      parse(code, { sourceType: 'module', plugins: ['typescript', 'decorators-legacy'] });
+
+    test('should describe components with their bindings and injected dependencies', () => {
+      const code = `
+        import { Component, EventEmitter, Input, Output, inject, input, model, output } from '@angular/core';
+
+        @Component({
+          selector: 'app-user-card',
+          standalone: true,
+          imports: [CommonModule, AvatarComponent],
+          templateUrl: './user-card.component.html',
+          styleUrl: './user-card.component.css',
+          inputs: ['size: avatarSize'],
+          providers: [{ provide: USER_FORMAT, useValue: 'short' }],
+        })
+        export class UserCardComponent {
+          @Input() user!: User;
+          @Input() set highlighted(value: boolean) {}
+          @Output() selected = new EventEmitter<User>();
+          compact = input(false);
+          label = input.required<string>();
+          open = model(false);
+          closed = output<void>();
+          private readonly store = inject(UserStore);
+
+          constructor(private readonly users: UsersService) {}
+        }
+      `;
+
+      const patterns = detector.analyzePatterns(parseAngular(code), 'user-card.component.ts', code);
+
+      assert.deepStrictEqual(patterns.angular.components, [
+        {
+          name: 'UserCardComponent',
+          file: 'user-card.component.ts',
+          line: 4,
+          selector: 'app-user-card',
+          templateUrl: './user-card.component.html',
+          styleUrls: ['./user-card.component.css'],
+          standalone: true,
+          imports: ['CommonModule', 'AvatarComponent'],
+          inputs: ['size', 'user', 'highlighted', 'compact', 'label', 'open'],
+          outputs: ['selected', 'openChange', 'closed'],
+          providers: ['USER_FORMAT'],
+          dependencies: ['UsersService', 'UserStore'],
+        },
+      ]);
+      assert.strictEqual(patterns.components[0].name, 'UserCardComponent');
+    });
+
+    test('should list NgModules and injectable services', () => {
+      const code = `
+        import { Injectable, NgModule } from '@angular/core';
+
+        @NgModule({
+          declarations: [AppComponent, HeaderComponent],
+          imports: [BrowserModule, RouterModule.forRoot(routes)],
+          providers: [AuthService],
+          bootstrap: [AppComponent],
+        })
+        export class AppModule {}
+
+        @Injectable({ providedIn: 'root' })
+        export class AuthService {
+          private readonly http = inject(HttpClient);
+        }
+
+        @Injectable()
+        export class LocalStore {}
+      `;
+
+      const patterns = detector.analyzePatterns(parseAngular(code), 'app.module.ts', code);
+
+      assert.deepStrictEqual(patterns.angular.modules, [
+        {
+          name: 'AppModule',
+          file: 'app.module.ts',
+          line: 4,
+          declarations: ['AppComponent', 'HeaderComponent'],
+          imports: ['BrowserModule', 'RouterModule.forRoot'],
+          exports: [],
+          providers: ['AuthService'],
+          bootstrap: ['AppComponent'],
+        },
+      ]);
+      assert.deepStrictEqual(patterns.angular.services, [
+        {
+          name: 'AuthService',
+          file: 'app.module.ts',
+          line: 12,
+          providedIn: 'root',
+          dependencies: ['HttpClient'],
+        },
+        {
+          name: 'LocalStore',
+          file: 'app.module.ts',
+          line: 17,
+          providedIn: undefined,
+          dependencies: [],
+        },
+      ]);
+      // NestJS also has an @Injectable() decorator
+      assert.deepStrictEqual(patterns.modules, []);
+    });
+
+    test('should ignore decorators that are not imported from @angular/core', () => {
+      const code = `
+        import { Injectable } from '@nestjs/common';
+
+        @Injectable()
+        export class UsersService {}
+      `;
+
+      const patterns = detector.analyzePatterns(parseAngular(code), 'users.service.ts', code);
+
+      assert.deepStrictEqual(patterns.angular.services, []);
+      assert.strictEqual(patterns.services.length, 1);
+    });
+
+    test('should list routes with their full paths, lazy modules and guards', () => {
+      const code = `
+        import { Routes, RouterModule } from '@angular/router';
+
+        export const routes: Routes = [
+          { path: '', component: HomeComponent },
+          {
+            path: 'admin',
+            canActivate: [authGuard],
+            children: [
+              { path: 'users/:id', component: UserDetailComponent, canDeactivate: [UnsavedChangesGuard] },
+              { path: 'reports', loadChildren: () => import('./reports/reports.routes').then((m) => m.routes) },
+            ],
+          },
+          { path: 'settings', loadComponent: () => import('./settings/settings.component') },
+          { path: '**', redirectTo: '' },
+        ];
+
+        RouterModule.forRoot(routes);
+      `;
+
+      const patterns = detector.analyzePatterns(parseAngular(code), 'app.routes.ts', code);
+
+      assert.deepStrictEqual(
+        patterns.angular.routes.map(({ path, component, lazy, redirectTo, guards }) => ({
+          path,
+          component,
+          lazy,
+          redirectTo,
+          guards,
+        })),
+        [
+          {
+            path: '/',
+            component: 'HomeComponent',
+            lazy: undefined,
+            redirectTo: undefined,
+            guards: undefined,
+          },
+          {
+            path: '/admin',
+            component: undefined,
+            lazy: undefined,
+            redirectTo: undefined,
+            guards: ['authGuard'],
+          },
+          {
+            path: '/admin/users/:id',
+            component: 'UserDetailComponent',
+            lazy: undefined,
+            redirectTo: undefined,
+            guards: ['UnsavedChangesGuard'],
+          },
+          {
+            path: '/admin/reports',
+            component: undefined,
+            lazy: './reports/reports.routes',
+            redirectTo: undefined,
+            guards: undefined,
+          },
+          {
+            path: '/settings',
+            component: undefined,
+            lazy: './settings/settings.component',
+            redirectTo: undefined,
+            guards: undefined,
+          },
+          {
+            path: '/**',
+            component: undefined,
+            lazy: undefined,
+            redirectTo: '',
+            guards: undefined,
+          },
+        ],
+      );
+    });
+  });
+
   describe('service detection', () => {
     test('should detect service classes with Injectable decorator', () => {
       const code = `
@@ -178,6 +987,7 @@ describe('PatternDetector', () => {
       assert.strictEqual(patterns.services.length, 1);
       assert.strictEqual(patterns.services[0].name, 'UserService');
       assert.strictEqual(patterns.services[0].type, 'class');
+      assert.deepStrictEqual(patterns.services[0].dependencies, ['UserRepository']);
       assert.ok(patterns.services[0].methods.includes('findAll'));
       assert.ok(patterns.services[0].methods.includes('create'));
     });
@@ -287,6 +1097,29 @@ describe('PatternDetector', () => {
       assert.strictEqual(patterns.middleware[0].type, 'function');
       assert.strictEqual(patterns.middleware[1].name, 'corsMiddleware');
     });
+
+    test('should record the config.matcher paths of Next.js middleware', () => {
+      const code = `
+        export function middleware(request) {
+          return NextResponse.next();
+        }
+
+        export const config = {
+          matcher: ['/dashboard/:path*', { source: '/api/:path*', has: [{ type: 'header', key: 'x-auth' }] }],
+        };
+      `;
+
+      const ast = parse(code, { sourceType: 'module' });
+
+      assert.deepStrictEqual(
+        detector.analyzePatterns(ast, 'src/middleware.ts', code).middlewareMatcher,
+        ['/dashboard/:path*', '/api/:path*'],
+      );
+      assert.strictEqual(
+        detector.analyzePatterns(ast, 'src/lib/config.ts', code).middlewareMatcher,
+        undefined,
+      );
+    });
   });
 
   describe('utility detection', () => {
@@ -348,6 +1181,36 @@ describe('PatternDetector', () => {
       assert.strictEqual(patterns.services.length, 0);
     });
 
+    test('should list constructor-injected dependencies by token or type', () => {
+      const code = `
+        @Injectable()
+        export class OrdersService {
+          constructor(
+            private readonly users: UsersService,
+            @Inject(forwardRef(() => PaymentsService)) private payments: PaymentsService,
+            @Inject('CONFIG') config: Record<string, string>,
+            @InjectRepository(Order) private orders: Repository<Order>,
+            logger: Logger.Service,
+          ) {}
+        }
+      `;
+
+      const ast = parse(code, {
+        sourceType: 'module',
+        plugins: ['typescript', 'decorators-legacy'],
+      });
+
+      const patterns = detector.analyzePatterns(ast, 'orders.service.ts', code);
+
+      assert.deepStrictEqual(patterns.services[0].dependencies, [
+        'UsersService',
+        'PaymentsService',
+        'CONFIG',
+        'Repository',
+        'Logger.Service',
+      ]);
+    });
+
     test('should handle complex nested structures', () => {
       const code = `
         class ApiController {
@@ -1,3 +1,4 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
 import * as assert from 'node:assert';
 import { test, describe, beforeEach, afterEach, mock } from 'node:test';
 import { join } from 'path';
@@ -98,4 +99,108 @@ describe('ProjectAnalyzer', () => {
       assert.ok(files.some((f) => f.includes('.ts') || f.includes('.js')));
     });
   });
+
+  describe('entry points', () => {
+    const projectDir = '/tmp/parseme-entry-points-test';
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    test('should collect types and nested conditional exports', async () => {
+      await mkdir(projectDir, { recursive: true });
+      await writeFile(
+        join(projectDir, 'package.json'),
+        JSON.stringify({
+          name: 'entry-test',
+          main: './dist/index.cjs',
+          types: './dist/index.d.ts',
+          exports: {
+            '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+            './utils': { default: './dist/utils.js' },
+          },
+        }),
+      );
+
+      const result = await analyzer.analyze(projectDir);
+
+      assert.deepStrictEqual(result.entryPoints, [
+        './dist/index.cjs',
+        './dist/index.d.ts',
+        './dist/index.js',
+        './dist/utils.js',
+      ]);
+    });
+  });
+
+  describe('path aliases', () => {
+    const projectDir = '/tmp/parseme-path-aliases-test';
+
+    beforeEach(async () => {
+      await mkdir(join(projectDir, 'config'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    test('should read paths and baseUrl through the extends chain', async () => {
+      await writeFile(
+        join(projectDir, 'config', 'tsconfig.base.json'),
+        `{
+  // Shared settings
+  "compilerOptions": {
+    "baseUrl": "..",
+    "paths": { "~/*": ["lib/*"] },
+  },
+}`,
+      );
+      await writeFile(
+        join(projectDir, 'tsconfig.json'),
+        `{
+  "extends": "./config/tsconfig.base",
+  /* Overrides the base aliases */
+  "compilerOptions": {
+    "paths": { "@/*": ["src/*"], "@config": ["./config/index.ts"] }
+  }
+}`,
+      );
+
+      const result = await analyzer.analyze(projectDir);
+
+      assert.deepStrictEqual(result.pathAliases, {
+        baseUrl: '.',
+        paths: { '@/*': ['src/*'], '@config': ['config/index.ts'] },
+      });
+    });
+
+    test('should resolve paths relative to the declaring config without baseUrl', async () => {
+      await writeFile(
+        join(projectDir, 'config', 'base.json'),
+        JSON.stringify({ compilerOptions: { paths: { '#shared/*': ['../shared/*'] } } }),
+      );
+      await writeFile(
+        join(projectDir, 'jsconfig.json'),
+        JSON.stringify({ extends: './config/base.json' }),
+      );
+
+      const result = await analyzer.analyze(projectDir);
+
+      assert.deepStrictEqual(result.pathAliases, {
+        baseUrl: undefined,
+        paths: { '#shared/*': ['shared/*'] },
+      });
+    });
+
+    test('should leave pathAliases undefined without aliases', async () => {
+      await writeFile(
+        join(projectDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { strict: true } }),
+      );
+
+      const result = await analyzer.analyze(projectDir);
+
+      assert.strictEqual(result.pathAliases, undefined);
+    });
+  });
 });
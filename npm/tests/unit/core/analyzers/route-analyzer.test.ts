@@ -0,0 +1,162 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { RouteAnalyzer } from '../../../../dist/core/analyzers/route-analyzer.js';
+
+import type { EndpointInfo, FileAnalysis, NestAppInfo } from '../../../../dist/core/types.js';
+
+describe('RouteAnalyzer', () => {
+  const analyzer = new RouteAnalyzer();
+
+  function file(path: string, routes: EndpointInfo[], nestApp?: NestAppInfo): FileAnalysis {
+    return {
+      path,
+      type: 'route',
+      exports: [],
+      imports: [],
+      functions: [],
+      classes: [],
+      routes,
+      nestApp,
+    };
+  }
+
+  function route(path: string, controller?: string, versions?: string[]): EndpointInfo {
+    return {
+      method: 'GET',
+      path,
+      handler: 'handler',
+      file: 'src/cats.controller.ts',
+      line: 1,
+      controller,
+      versions,
+    };
+  }
+
+  test('should prepend the global prefix and URI version to NestJS routes', () => {
+    const analyses = [
+      file('src/main.ts', [], {
+        globalPrefix: '/api/',
+        versioning: { prefix: 'v', defaultVersion: ['1'] },
+      }),
+      file('src/cats.controller.ts', [
+        route('/cats', 'CatsController'),
+        route('/cats/:id', 'CatsController', ['2', '3']),
+        route('/health', 'HealthController', []),
+        route('/legacy'),
+      ]),
+    ];
+
+    const resolved = analyzer.resolve(analyses, []);
+
+    assert.deepStrictEqual(
+      resolved[1].routes?.map((entry) => entry.path),
+      ['/api/v1/cats', '/api/v2/cats/:id', '/api/v3/cats/:id', '/api/health', '/legacy'],
+    );
+    // The input stays untouched so it can be resolved again
+    assert.strictEqual(analyses[1].routes?.[0].path, '/cats');
+  });
+
+  test('should leave routes unchanged without application-wide routing setup', () => {
+    const analyses = [file('src/cats.controller.ts', [route('/cats', 'CatsController', ['1'])])];
+
+    assert.deepStrictEqual(analyzer.resolve(analyses, []), analyses);
+  });
+
+  describe('Express router mounts', () => {
+    function expressRoute(
+      file: string,
+      path: string,
+      router: string,
+      middleware?: string[],
+    ): EndpointInfo {
+      return { method: 'GET', path, handler: 'list', file, line: 1, router, middleware };
+    }
+
+    test('should prefix routes of routers mounted from other files', () => {
+      const analyses: FileAnalysis[] = [
+        {
+          ...file('src/app.ts', []),
+          mounts: [
+            {
+              router: 'app',
+              path: '/api',
+              target: 'apiRouter',
+              source: './routes/index.js',
+              importedName: 'default',
+              middleware: ['auth'],
+              line: 5,
+            },
+          ],
+        },
+        {
+          ...file('src/routes/index.ts', [expressRoute('src/routes/index.ts', '/', 'router')]),
+          routerExports: { default: 'router' },
+          mounts: [
+            {
+              router: 'router',
+              path: '/users',
+              target: 'usersRouter',
+              source: './users',
+              importedName: 'usersRouter',
+              middleware: [],
+              line: 4,
+            },
+            {
+              router: 'router',
+              path: '/admin',
+              target: 'adminRouter',
+              middleware: ['requireAdmin'],
+              line: 8,
+            },
+          ],
+        },
+        {
+          ...file('src/routes/users.ts', [
+            expressRoute('src/routes/users.ts', '/:id', 'usersRouter', ['validate']),
+          ]),
+          routerExports: { usersRouter: 'usersRouter' },
+        },
+      ];
+      analyses[1].routes!.push(expressRoute('src/routes/index.ts', '/stats', 'adminRouter'));
+
+      const resolved = analyzer.resolve(analyses, []);
+
+      assert.deepStrictEqual(
+        resolved
+          .flatMap((entry) => entry.routes ?? [])
+          .map(({ path, middleware }) => ({ path, middleware })),
+        [
+          { path: '/api', middleware: ['auth'] },
+          { path: '/api/admin/stats', middleware: ['auth', 'requireAdmin'] },
+          { path: '/api/users/:id', middleware: ['auth', 'validate'] },
+        ],
+      );
+    });
+
+    test('should keep the key order of mounted routes independent of their optional fields', () => {
+      const mountedFile = (middleware?: string[]): FileAnalysis => ({
+        ...file('src/app.ts', [expressRoute('src/app.ts', '/:id', 'usersRouter', middleware)]),
+        mounts: [
+          { router: 'app', path: '/users', target: 'usersRouter', middleware: ['auth'], line: 3 },
+        ],
+      });
+      const withoutKey = mountedFile();
+      delete withoutKey.routes![0].middleware;
+
+      const [fromMissingKey] = analyzer.resolve([withoutKey], [])[0].routes!;
+      const [fromUndefinedKey] = analyzer.resolve([mountedFile()], [])[0].routes!;
+
+      assert.strictEqual(JSON.stringify(fromMissingKey), JSON.stringify(fromUndefinedKey));
+      assert.deepStrictEqual(Object.keys(JSON.parse(JSON.stringify(fromMissingKey))), [
+        'method',
+        'path',
+        'handler',
+        'middleware',
+        'file',
+        'line',
+        'router',
+      ]);
+    });
+  });
+});
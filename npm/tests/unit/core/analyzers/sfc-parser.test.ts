@@ -0,0 +1,83 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { SfcParser } from '../../../../dist/core/analyzers/sfc-parser.js';
+
+describe('SfcParser', () => {
+  const parser = new SfcParser();
+
+  describe('parseVue', () => {
+    test('should keep script blocks in place and blank out everything else', () => {
+      const result = parser.parseVue(`<script lang="ts">
+export default { name: 'Panel' };
+</script>
+<template>
+  <div>{{ title }}</div>
+</template>
+<script setup lang="ts">
+const title = 'Hello';
+</script>
+<style>div { margin: 0; }</style>`);
+
+      // Lines 2 and 8 keep their line numbers
+      assert.strictEqual(
+        result.script,
+        "\nexport default { name: 'Panel' };\n\n\n\n\n\nconst title = 'Hello';\n\n",
+      );
+      assert.strictEqual(result.ext, '.ts');
+    });
+
+    test('should list template components once, ignoring HTML elements and Vue built-ins', () => {
+      const result = parser.parseVue(`<template>
+  <KeepAlive>
+    <router-view />
+  </KeepAlive>
+  <template v-for="item in items" :key="item.id">
+    <ListItem :item="item" />
+    <Icons.Check />
+  </template>
+  <list-item />
+</template>`);
+
+      assert.deepStrictEqual(result.components, ['RouterView', 'ListItem', 'Icons.Check']);
+      assert.strictEqual(result.script, '\n\n\n\n\n\n\n\n\n');
+      assert.strictEqual(result.ext, '.js');
+    });
+
+    test('should skip external scripts', () => {
+      const result = parser.parseVue(`<script src="./panel.js"></script>
+<template><Panel /></template>`);
+
+      assert.strictEqual(result.script, '\n');
+      assert.deepStrictEqual(result.components, ['Panel']);
+    });
+  });
+
+  describe('parseSvelte', () => {
+    test('should keep scripts and find components in the markup', () => {
+      const result = parser.parseSvelte(`<script lang="ts">
+  let count = 0;
+</script>
+<Counter {count} />
+<style>p { margin: 0; }</style>`);
+
+      assert.strictEqual(result.script, '\n  let count = 0;\n\n\n');
+      assert.strictEqual(result.ext, '.ts');
+      assert.deepStrictEqual(result.components, ['Counter']);
+    });
+  });
+
+  describe('parseAstro', () => {
+    test('should keep the frontmatter and ignore components in scripts', () => {
+      const result = parser.parseAstro(`---
+const title = 'Home';
+---
+<Fragment><Header {title} /></Fragment>
+<script>const el = document.querySelector('<Nope>');</script>`);
+
+      assert.strictEqual(result.script, "\nconst title = 'Home';\n\n\n");
+      assert.strictEqual(result.ext, '.ts');
+      assert.deepStrictEqual(result.components, ['Header']);
+    });
+  });
+});
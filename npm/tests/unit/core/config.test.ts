@@ -20,6 +20,7 @@ describe('ParsemeConfig', () => {
       assert.strictEqual(result.contextDir, 'parseme-context');
       assert.strictEqual(result.maxDepth, 10);
       assert.strictEqual(result.includeGitInfo, true);
+      assert.strictEqual(result.cache, true);
       assert.ok(result.analyzeFileTypes);
       assert.ok(result.excludePatterns);
       assert.ok(result.sections);
@@ -50,6 +51,18 @@ describe('ParsemeConfig', () => {
       assert.strictEqual(result.contextDir, 'parseme-context');
     });
 
+    test('should default concurrency to a positive integer', () => {
+      const result = new ParsemeConfig().get();
+
+      assert.ok(Number.isInteger(result.concurrency));
+      assert.ok(result.concurrency! >= 1);
+    });
+
+    test('should reject invalid concurrency', () => {
+      assert.throws(() => new ParsemeConfig({ concurrency: 0 }), /Invalid concurrency: 0/);
+      assert.throws(() => new ParsemeConfig({ concurrency: 1.5 }), /Invalid concurrency: 1.5/);
+    });
+
     test('should set correct default file types', () => {
       const config = new ParsemeConfig();
       const result = config.get();
@@ -58,6 +71,11 @@ describe('ParsemeConfig', () => {
       assert.ok(result.analyzeFileTypes?.includes('tsx'));
       assert.ok(result.analyzeFileTypes?.includes('js'));
       assert.ok(result.analyzeFileTypes?.includes('jsx'));
+      assert.ok(result.analyzeFileTypes?.includes('mjs'));
+      assert.ok(result.analyzeFileTypes?.includes('cjs'));
+      assert.ok(result.analyzeFileTypes?.includes('vue'));
+      assert.ok(result.analyzeFileTypes?.includes('svelte'));
+      assert.ok(result.analyzeFileTypes?.includes('astro'));
     });
 
     test('should validate file types and reject invalid ones', () => {
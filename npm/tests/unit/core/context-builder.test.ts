@@ -4,7 +4,13 @@ import { test, describe, beforeEach } from 'node:test';
 import { ParsemeConfig } from '../../../dist/core/config.js';
 import { ContextBuilder } from '../../../dist/core/context-builder.js';
 
-import type { ProjectInfo, FileAnalysis, GitInfo } from '../../../dist/core/types.js';
+import type {
+  ContextOutput,
+  DependencyGraph,
+  ProjectInfo,
+  FileAnalysis,
+  GitInfo,
+} from '../../../dist/core/types.js';
 
 describe('ContextBuilder', () => {
   let builder: ContextBuilder;
@@ -547,4 +553,661 @@ describe('ContextBuilder', () => {
       }
     });
   });
+
+  describe('sections', () => {
+    const projectInfo: ProjectInfo = {
+      name: 'sections-project',
+      type: 'typescript',
+      category: 'backend-api',
+      packageManager: 'npm',
+      dependencies: { express: '^4.18.0' },
+      devDependencies: {},
+    };
+
+    const fileAnalyses: FileAnalysis[] = [
+      {
+        path: 'src/routes/users.ts',
+        type: 'route',
+        exports: [],
+        imports: ['express'],
+        functions: [],
+        classes: [],
+        routes: [
+          {
+            method: 'GET',
+            path: '/users',
+            handler: 'anonymous',
+            file: 'src/routes/users.ts',
+            line: 3,
+          },
+        ],
+      },
+    ];
+
+    const gitInfo: GitInfo = {
+      branch: 'main',
+      lastCommit: 'abc123 Initial commit',
+      changedFiles: [],
+      status: 'dirty',
+      diffStat: ' src/routes/users.ts | 2 +-',
+    };
+
+    function buildWithSections(sections: Record<string, boolean>): ContextOutput {
+      const sectionBuilder = new ContextBuilder(new ParsemeConfig({ sections }));
+      return sectionBuilder.build({
+        projectInfo,
+        fileAnalyses,
+        allFiles: ['src/routes/users.ts'],
+        gitInfo,
+        options: {},
+      });
+    }
+
+    test('should emit every block and file by default', () => {
+      const context = buildWithSections({});
+
+      assert.ok(context.parseme.includes('## Basic Project Information'));
+      assert.ok(context.parseme.includes('### Dependencies'));
+      assert.ok(context.parseme.includes('## Project Files'));
+      assert.ok(context.parseme.includes('## Project Structure & AST'));
+      assert.ok(context.parseme.includes('## API Routes'));
+      assert.ok(context.parseme.includes('## Git Information'));
+      assert.deepStrictEqual(Object.keys(context.context).sort(), [
+        'files',
+        'gitDiff',
+        'routes',
+        'structure',
+      ]);
+    });
+
+    test('should drop the dependency list when dependencies is disabled', () => {
+      const context = buildWithSections({ dependencies: false });
+
+      assert.ok(context.parseme.includes('## Basic Project Information'));
+      assert.ok(!context.parseme.includes('### Dependencies'));
+    });
+
+    test('should drop the git section and gitDiff file when git is disabled', () => {
+      const context = buildWithSections({ git: false });
+
+      assert.ok(!context.parseme.includes('## Git Information'));
+      assert.ok(!context.parseme.includes('"Git Information" section'));
+      assert.ok(!context.context.gitDiff);
+    });
+
+    test('should drop routes from PARSEME.md, context and structure refs when routes is disabled', () => {
+      const context = buildWithSections({ routes: false });
+
+      assert.ok(!context.parseme.includes('routes.json'));
+      assert.ok(!context.context.routes);
+      const structure = JSON.parse(context.context.structure);
+      assert.deepStrictEqual(structure[0].routes, []);
+    });
+
+    test('should drop files list and structure when fileStructure and architecture are disabled', () => {
+      const context = buildWithSections({ fileStructure: false, architecture: false });
+
+      assert.ok(!context.parseme.includes('files.md'));
+      assert.ok(!context.parseme.includes('structure.json'));
+      assert.ok(!context.context.files);
+      assert.ok(!context.context.structure);
+    });
+
+    test('should drop the overview block when overview is disabled', () => {
+      const context = buildWithSections({ overview: false });
+
+      assert.ok(!context.parseme.includes('## Basic Project Information'));
+      assert.ok(!context.parseme.includes('Basic project information, script availability'));
+    });
+
+    test('should renumber header instructions to only reference emitted files', () => {
+      const context = buildWithSections({
+        overview: false,
+        fileStructure: false,
+        routes: false,
+        git: false,
+      });
+
+      const instructions = context.parseme
+        .split('\n')
+        .filter((line) => /^\d+\. /.test(line))
+        .map((line) => line.slice(0, line.indexOf(' ')));
+      assert.deepStrictEqual(instructions, ['1.', '2.', '3.']);
+      assert.ok(context.parseme.includes('2. Utilize the structure and AST data'));
+      assert.ok(context.parseme.includes('3. Only dive deeper'));
+    });
+  });
+
+  describe('style', () => {
+    const projectInfo: ProjectInfo = {
+      name: 'style-project',
+      type: 'typescript',
+      category: 'npm-package',
+      packageManager: 'npm',
+      dependencies: {},
+      devDependencies: {},
+    };
+
+    const fileAnalyses: FileAnalysis[] = [
+      {
+        path: 'src/utils/b.ts',
+        type: 'utility',
+        exports: ['helper'],
+        imports: [],
+        functions: ['helper'],
+        classes: [],
+        locations: {
+          functions: [{ name: 'helper', line: 3 }],
+          classes: [],
+          exports: [{ name: 'helper', line: 3 }],
+        },
+      },
+      {
+        path: 'src/utils/a.ts',
+        type: 'utility',
+        exports: [],
+        imports: [],
+        functions: [],
+        classes: ['Cache'],
+        locations: {
+          functions: [],
+          classes: [{ name: 'Cache', line: 7 }],
+          exports: [],
+        },
+      },
+      {
+        path: 'src/services/user.ts',
+        type: 'service',
+        exports: [],
+        imports: [],
+        functions: [],
+        classes: [],
+      },
+    ];
+
+    const allFiles = ['README.md', 'src/services/user.ts', 'src/utils/a.ts', 'src/utils/b.ts'];
+
+    const fileStats = {
+      'README.md': { size: 2048, lines: 60 },
+      'src/services/user.ts': { size: 100, lines: 5 },
+      'src/utils/a.ts': { size: 10, lines: 1 },
+      'src/utils/b.ts': { size: 500, lines: 20 },
+    };
+
+    function buildWithStyle(style: Record<string, unknown>): ContextOutput {
+      const styleBuilder = new ContextBuilder(new ParsemeConfig({ style }));
+      return styleBuilder.build({
+        projectInfo,
+        fileAnalyses,
+        allFiles,
+        fileStats,
+        gitInfo: null,
+        options: {},
+      });
+    }
+
+    test('should sort structure by type then path by default', () => {
+      const context = buildWithStyle({});
+      const structure = JSON.parse(context.context.structure);
+
+      assert.deepStrictEqual(
+        structure.map((file: { path: string }) => file.path),
+        ['src/services/user.ts', 'src/utils/a.ts', 'src/utils/b.ts'],
+      );
+    });
+
+    test('should sort alphabetically without grouping', () => {
+      const context = buildWithStyle({ sortOrder: 'alphabetical', groupByType: false });
+      const structure = JSON.parse(context.context.structure);
+
+      assert.deepStrictEqual(
+        structure.map((file: { path: string }) => file.path),
+        ['src/services/user.ts', 'src/utils/a.ts', 'src/utils/b.ts'],
+      );
+      assert.ok(!context.context.files.includes('## '));
+    });
+
+    test('should sort by size descending', () => {
+      const context = buildWithStyle({ sortOrder: 'size', groupByType: false });
+      const structure = JSON.parse(context.context.structure);
+
+      assert.deepStrictEqual(
+        structure.map((file: { path: string }) => file.path),
+        ['src/utils/b.ts', 'src/services/user.ts', 'src/utils/a.ts'],
+      );
+      assert.ok(
+        context.context.files.indexOf('README.md') <
+          context.context.files.indexOf('src/utils/b.ts'),
+      );
+    });
+
+    test('should group files.md by detected type', () => {
+      const context = buildWithStyle({ groupByType: true, includeFileStats: false });
+      const files = context.context.files;
+
+      assert.ok(files.indexOf('## Service files') < files.indexOf('## Utility files'));
+      assert.ok(files.indexOf('## Utility files') < files.indexOf('## Other files'));
+      assert.ok(files.indexOf('## Other files') < files.indexOf('- README.md'));
+    });
+
+    test('should include file stats when enabled', () => {
+      const context = buildWithStyle({ includeFileStats: true });
+      const structure = JSON.parse(context.context.structure);
+
+      assert.ok(context.context.files.includes('- README.md (60 lines, 2.0 KB)'));
+      assert.ok(context.context.files.includes('- src/utils/a.ts (1 lines, 10 B)'));
+      assert.deepStrictEqual(structure[0].stats, { size: 100, lines: 5 });
+    });
+
+    test('should omit file stats when disabled', () => {
+      const context = buildWithStyle({ includeFileStats: false });
+      const structure = JSON.parse(context.context.structure);
+
+      assert.ok(context.context.files.includes('- README.md\n'));
+      assert.strictEqual(structure[0].stats, undefined);
+    });
+
+    test('should emit line numbers for functions, classes and exports when enabled', () => {
+      const context = buildWithStyle({ includeLineNumbers: true });
+      const structure = JSON.parse(context.context.structure);
+      const b = structure.find((file: { path: string }) => file.path === 'src/utils/b.ts');
+      const a = structure.find((file: { path: string }) => file.path === 'src/utils/a.ts');
+
+      assert.deepStrictEqual(b.functions, [{ name: 'helper', line: 3 }]);
+      assert.deepStrictEqual(b.exports, [{ name: 'helper', line: 3 }]);
+      assert.deepStrictEqual(a.classes, [{ name: 'Cache', line: 7 }]);
+    });
+
+    test('should emit plain names when line numbers are disabled', () => {
+      const context = buildWithStyle({ includeLineNumbers: false });
+      const structure = JSON.parse(context.context.structure);
+      const b = structure.find((file: { path: string }) => file.path === 'src/utils/b.ts');
+
+      assert.deepStrictEqual(b.functions, ['helper']);
+    });
+  });
+
+  describe('dependencies', () => {
+    const projectInfo: ProjectInfo = {
+      name: 'graph-project',
+      type: 'typescript',
+      category: 'npm-package',
+      packageManager: 'npm',
+      dependencies: {},
+      devDependencies: {},
+    };
+
+    const dependencyGraph: DependencyGraph = {
+      'src/index.ts': {
+        imports: ['src/utils.ts'],
+        importedBy: [],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: ['node:fs'],
+        unresolved: [],
+      },
+      'src/utils.ts': {
+        imports: [],
+        importedBy: ['src/index.ts'],
+        dynamicImports: [],
+        dynamicImportedBy: [],
+        typeImports: [],
+        typeImportedBy: [],
+        packages: [],
+        unresolved: [],
+      },
+    };
+
+    function buildWithGraph(sections: Record<string, boolean> = {}): ContextOutput {
+      return new ContextBuilder(new ParsemeConfig({ sections })).build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: ['src/index.ts', 'src/utils.ts'],
+        dependencyGraph,
+        options: {},
+      });
+    }
+
+    test('should emit dependencies.json with the dependency graph', () => {
+      const context = buildWithGraph();
+
+      assert.deepStrictEqual(JSON.parse(context.context.dependencies), dependencyGraph);
+      assert.ok(context.parseme.includes('## Module Dependencies'));
+      assert.ok(context.parseme.includes('[parseme-context/dependencies.json]'));
+    });
+
+    test('should list path aliases in the project overview', () => {
+      const context = builder.build({
+        projectInfo: {
+          ...projectInfo,
+          pathAliases: { baseUrl: '.', paths: { '@/*': ['src/*'], '~/*': ['lib/*', 'vendor/*'] } },
+        },
+        fileAnalyses: [],
+        allFiles: [],
+        options: {},
+      });
+
+      assert.ok(context.parseme.includes('### Path Aliases'));
+      assert.ok(context.parseme.includes('- **baseUrl**: `.`'));
+      assert.ok(context.parseme.includes('- `@/*` → `src/*`'));
+      assert.ok(context.parseme.includes('- `~/*` → `lib/*`, `vendor/*`'));
+    });
+
+    test('should drop dependencies.json when dependencies is disabled', () => {
+      const context = buildWithGraph({ dependencies: false });
+
+      assert.ok(!context.context.dependencies);
+      assert.ok(!context.parseme.includes('dependencies.json'));
+    });
+
+    test('should emit cycles.json and list the shortest cycles when cycles exist', () => {
+      const context = new ContextBuilder(new ParsemeConfig()).build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: ['src/index.ts', 'src/utils.ts'],
+        dependencyGraph,
+        dependencyCycles: [
+          { files: ['src/a.ts', 'src/b.ts'], path: ['src/a.ts', 'src/b.ts', 'src/a.ts'] },
+        ],
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.cycles), [
+        { files: ['src/a.ts', 'src/b.ts'], path: ['src/a.ts', 'src/b.ts', 'src/a.ts'] },
+      ]);
+      assert.ok(context.parseme.includes('## Circular Dependencies'));
+      assert.ok(context.parseme.includes('1 import cycle was detected'));
+      assert.ok(context.parseme.includes('- src/a.ts → src/b.ts → src/a.ts'));
+    });
+
+    test('should not emit cycles.json without cycles', () => {
+      const context = buildWithGraph();
+
+      assert.ok(!context.context.cycles);
+      assert.ok(!context.parseme.includes('## Circular Dependencies'));
+    });
+
+    test('should list traced re-exports and flag barrels in structure.json', () => {
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [
+          {
+            path: 'src/index.ts',
+            type: 'utility',
+            exports: ['Button'],
+            imports: ['./ui/Button.js'],
+            functions: [],
+            classes: [],
+            barrel: true,
+          },
+        ],
+        allFiles: ['src/index.ts'],
+        reExports: {
+          'src/index.ts': [
+            {
+              name: 'Button',
+              definedIn: 'src/ui/Button.tsx',
+              localName: 'default',
+              kind: 'function',
+              source: './ui/Button.js',
+            },
+          ],
+        },
+        options: {},
+      });
+
+      const [entry] = JSON.parse(context.context.structure);
+      assert.strictEqual(entry.barrel, true);
+      assert.deepStrictEqual(entry.reExports, [
+        {
+          name: 'Button',
+          source: './ui/Button.js',
+          definedIn: 'src/ui/Button.tsx',
+          localName: 'default',
+        },
+      ]);
+    });
+
+    test('should emit api.json and a Public API block for packages with an API surface', () => {
+      const apiSurface = [
+        {
+          entryPoint: './dist/index.js',
+          file: 'src/index.ts',
+          exports: [{ name: 'connect', kind: 'function' as const, definedIn: 'src/client.ts' }],
+        },
+      ];
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: [],
+        apiSurface,
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.api), apiSurface);
+      assert.ok(context.parseme.includes('## Public API'));
+      assert.ok(context.parseme.includes('[parseme-context/api.json]'));
+    });
+
+    test('should emit modules.json for NestJS modules', () => {
+      const modules = [
+        {
+          name: 'AppModule',
+          file: 'src/app.module.ts',
+          line: 3,
+          global: false,
+          imports: ['UsersModule'],
+          controllers: ['AppController'],
+          providers: ['AppService'],
+          exports: [],
+        },
+      ];
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [
+          {
+            path: 'src/app.module.ts',
+            type: 'utility',
+            exports: ['AppModule'],
+            imports: [],
+            functions: [],
+            classes: ['AppModule'],
+            modules,
+          },
+        ],
+        allFiles: ['src/app.module.ts'],
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.modules), modules);
+      assert.ok(context.parseme.includes('## NestJS Modules'));
+    });
+
+    test('should emit angular.json with the declarations of all files', () => {
+      const component = {
+        name: 'AppComponent',
+        file: 'src/app/app.component.ts',
+        line: 4,
+        selector: 'app-root',
+        imports: ['RouterOutlet'],
+        inputs: [],
+        outputs: [],
+        providers: [],
+        dependencies: [],
+      };
+      const route = {
+        path: '/users',
+        file: 'src/app/app.routes.ts',
+        line: 5,
+        component: 'UsersComponent',
+      };
+      const file = (path: string, angular: FileAnalysis['angular']): FileAnalysis => ({
+        path,
+        type: 'component',
+        exports: [],
+        imports: [],
+        functions: [],
+        classes: [],
+        angular,
+      });
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [
+          file('src/app/app.component.ts', {
+            components: [component],
+            modules: [],
+            services: [],
+            routes: [],
+          }),
+          file('src/app/app.routes.ts', {
+            components: [],
+            modules: [],
+            services: [],
+            routes: [route],
+          }),
+        ],
+        allFiles: ['src/app/app.component.ts', 'src/app/app.routes.ts'],
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.angular), {
+        components: [component],
+        modules: [],
+        services: [],
+        routes: [route],
+      });
+      assert.ok(context.parseme.includes('## Angular'));
+      assert.ok(context.parseme.includes('[parseme-context/angular.json]'));
+    });
+
+    test('should list component metadata in structure.json', () => {
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [
+          {
+            path: 'src/components/UserCard.vue',
+            type: 'component',
+            exports: [],
+            imports: ['./UserAvatar.vue'],
+            functions: [],
+            classes: [],
+            components: [
+              {
+                name: 'UserCard',
+                file: 'src/components/UserCard.vue',
+                line: 1,
+                props: ['user'],
+                emits: ['select'],
+                composables: ['useRoute'],
+                children: ['UserAvatar'],
+              },
+            ],
+          },
+        ],
+        allFiles: ['src/components/UserCard.vue'],
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.structure)[0].components, [
+        {
+          name: 'UserCard',
+          line: 1,
+          props: ['user'],
+          emits: ['select'],
+          composables: ['useRoute'],
+          children: ['UserAvatar'],
+        },
+      ]);
+    });
+
+    test('should list services and their injected dependencies in structure.json', () => {
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [
+          {
+            path: 'src/users/users.service.ts',
+            type: 'service',
+            exports: ['UsersService'],
+            imports: [],
+            functions: [],
+            classes: ['UsersService'],
+            services: [
+              {
+                name: 'UsersService',
+                file: 'src/users/users.service.ts',
+                line: 4,
+                methods: ['findAll'],
+                dependencies: ['UsersRepository', 'CONFIG'],
+                type: 'class',
+              },
+            ],
+          },
+        ],
+        allFiles: ['src/users/users.service.ts'],
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.structure)[0].services, [
+        {
+          name: 'UsersService',
+          line: 4,
+          methods: ['findAll'],
+          dependencies: ['UsersRepository', 'CONFIG'],
+        },
+      ]);
+    });
+
+    test('should emit pages.json for Next.js pages', () => {
+      const pages = {
+        pages: [
+          {
+            route: '/',
+            kind: 'page' as const,
+            framework: 'next.js' as const,
+            file: 'app/page.tsx',
+            router: 'app' as const,
+            rendering: 'server' as const,
+          },
+        ],
+        middleware: { file: 'middleware.ts', matcher: ['/dashboard/:path*'] },
+      };
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: ['app/page.tsx', 'middleware.ts'],
+        pages,
+        options: {},
+      });
+
+      assert.deepStrictEqual(JSON.parse(context.context.pages), pages);
+      assert.ok(context.parseme.includes('## Pages'));
+    });
+
+    test('should not emit pages.json without pages or middleware', () => {
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: [],
+        pages: { pages: [] },
+        options: {},
+      });
+
+      assert.ok(!context.context.pages);
+      assert.ok(!context.parseme.includes('pages.json'));
+    });
+
+    test('should not emit dependencies.json for an empty graph', () => {
+      const context = builder.build({
+        projectInfo,
+        fileAnalyses: [],
+        allFiles: [],
+        dependencyGraph: {},
+        options: {},
+      });
+
+      assert.ok(!context.context.dependencies);
+    });
+  });
 });
@@ -215,4 +215,12 @@ describe('ParsemeGenerator', () => {
       // This functionality is tested in integration tests
     });
   });
+
+  describe('updateFiles', () => {
+    test('should require a previous generate call', async () => {
+      await assert.rejects(() => generator.updateFiles(['src/index.ts']), {
+        message: 'updateFiles() requires a previous generate() call',
+      });
+    });
+  });
 });
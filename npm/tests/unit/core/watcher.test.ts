@@ -0,0 +1,117 @@
+import { mkdir, writeFile, rm, readFile } from 'fs/promises';
+import * as assert from 'node:assert';
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import { join } from 'path';
+
+import { ParsemeWatcher } from '../../../dist/core/watcher.js';
+
+describe('ParsemeWatcher', () => {
+  const testDir = '/tmp/parseme-watcher-test';
+  let watcher: ParsemeWatcher | undefined;
+
+  beforeEach(async () => {
+    await mkdir(join(testDir, 'src'), { recursive: true });
+    await writeFile(
+      join(testDir, 'package.json'),
+      JSON.stringify({ name: 'watch-test', version: '1.0.0' }),
+    );
+    await writeFile(join(testDir, 'src', 'a.ts'), 'export function first() {}');
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should generate on start and rewrite context files after a change', async () => {
+    let onUpdate: (files: string[]) => void = () => {};
+    watcher = new ParsemeWatcher(
+      { rootDir: testDir, includeGitInfo: false, useGitForFiles: false },
+      { debounceMs: 50, onUpdate: (files) => onUpdate(files) },
+    );
+
+    await watcher.start();
+
+    const initial = await readFile(join(testDir, 'parseme-context', 'structure.json'), 'utf-8');
+    assert.ok(initial.includes('first'));
+
+    const updated = new Promise<string[]>((resolve) => {
+      onUpdate = resolve;
+    });
+    await writeFile(join(testDir, 'src', 'a.ts'), 'export function second() {}');
+    const files = await updated;
+
+    assert.deepStrictEqual(files, ['files.md', 'structure.json', 'dependencies.json']);
+    const structure = await readFile(join(testDir, 'parseme-context', 'structure.json'), 'utf-8');
+    assert.ok(structure.includes('second'));
+    assert.ok(!structure.includes('first'));
+  });
+
+  test('should pick up files in new directories', async () => {
+    let onUpdate: (files: string[]) => void = () => {};
+    watcher = new ParsemeWatcher(
+      { rootDir: testDir, includeGitInfo: false, useGitForFiles: false },
+      { debounceMs: 50, onUpdate: (files) => onUpdate(files) },
+    );
+
+    await watcher.start();
+
+    const updated = new Promise<string[]>((resolve) => {
+      onUpdate = resolve;
+    });
+    await mkdir(join(testDir, 'src', 'lib', 'utils'), { recursive: true });
+    await writeFile(join(testDir, 'src', 'lib', 'utils', 'b.ts'), 'export function helper() {}');
+    await updated;
+
+    const structure = await readFile(join(testDir, 'parseme-context', 'structure.json'), 'utf-8');
+    assert.ok(structure.includes('helper'));
+
+    // Files in the new directory are watched from now on
+    const changed = new Promise<string[]>((resolve) => {
+      onUpdate = resolve;
+    });
+    await writeFile(join(testDir, 'src', 'lib', 'utils', 'b.ts'), 'export function renamed() {}');
+    await changed;
+
+    const rewritten = await readFile(join(testDir, 'parseme-context', 'structure.json'), 'utf-8');
+    assert.ok(rewritten.includes('renamed'));
+  });
+
+  test('should pick up new files and link new context files in PARSEME.md', async () => {
+    let onUpdate: (files: string[]) => void = () => {};
+    watcher = new ParsemeWatcher(
+      { rootDir: testDir, includeGitInfo: false, useGitForFiles: false },
+      { debounceMs: 50, onUpdate: (files) => onUpdate(files) },
+    );
+
+    await watcher.start();
+    const parseme = await readFile(join(testDir, 'PARSEME.md'), 'utf-8');
+    assert.ok(!parseme.includes('routes.json'));
+
+    const updated = new Promise<string[]>((resolve) => {
+      onUpdate = resolve;
+    });
+    await writeFile(
+      join(testDir, 'src', 'routes.js'),
+      "app.get('/health', (req, res) => res.send('ok'));",
+    );
+    const files = await updated;
+
+    assert.ok(files.includes('routes.json'));
+    assert.ok(files.includes('PARSEME.md'));
+    const filesList = await readFile(join(testDir, 'parseme-context', 'files.md'), 'utf-8');
+    assert.ok(filesList.includes('src/routes.js'));
+    const updatedParseme = await readFile(join(testDir, 'PARSEME.md'), 'utf-8');
+    assert.ok(updatedParseme.includes('[parseme-context/routes.json]'));
+    assert.ok(updatedParseme.includes('## API Routes'));
+
+    // Removing the last route drops routes.json and its link again
+    const removed = new Promise<string[]>((resolve) => {
+      onUpdate = resolve;
+    });
+    await rm(join(testDir, 'src', 'routes.js'));
+    assert.ok((await removed).includes('PARSEME.md'));
+    assert.strictEqual(await readFile(join(testDir, 'PARSEME.md'), 'utf-8'), parseme);
+  });
+});
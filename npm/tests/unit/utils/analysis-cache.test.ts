@@ -0,0 +1,92 @@
+import { mkdir, rm, readFile, writeFile } from 'fs/promises';
+import * as assert from 'node:assert';
+import { test, describe, beforeEach, afterEach } from 'node:test';
+import { join } from 'path';
+
+import { AnalysisCache } from '../../../dist/utils/analysis-cache.js';
+
+import type { FileAnalysis } from '../../../dist/core/types.js';
+
+describe('AnalysisCache', () => {
+  const cacheDir = '/tmp/parseme-analysis-cache-test';
+
+  const analysis: FileAnalysis = {
+    path: 'src/index.ts',
+    type: 'utility',
+    exports: ['hello'],
+    imports: [],
+    functions: ['hello'],
+    classes: [],
+  };
+
+  beforeEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  test('should return undefined for unknown content', async () => {
+    const cache = new AnalysisCache(cacheDir, 'salt');
+    await cache.load();
+
+    assert.strictEqual(cache.get('src/index.ts', 'export const a = 1;'), undefined);
+  });
+
+  test('should persist entries across instances', async () => {
+    const cache = new AnalysisCache(cacheDir, 'salt');
+    await cache.load();
+    cache.set('src/index.ts', 'content', analysis);
+    await cache.save();
+
+    const reloaded = new AnalysisCache(cacheDir, 'salt');
+    await reloaded.load();
+
+    assert.deepStrictEqual(reloaded.get('src/index.ts', 'content'), analysis);
+    assert.strictEqual(reloaded.get('src/index.ts', 'changed content'), undefined);
+    assert.strictEqual(reloaded.get('src/other.ts', 'content'), undefined);
+  });
+
+  test('should discard entries when the salt changes', async () => {
+    const cache = new AnalysisCache(cacheDir, 'v1');
+    cache.set('src/index.ts', 'content', analysis);
+    await cache.save();
+
+    const reloaded = new AnalysisCache(cacheDir, 'v2');
+    await reloaded.load();
+
+    assert.strictEqual(reloaded.get('src/index.ts', 'content'), undefined);
+  });
+
+  test('should prune entries not used since the last load', async () => {
+    const cache = new AnalysisCache(cacheDir, 'salt');
+    cache.set('src/index.ts', 'content', analysis);
+    cache.set('src/old.ts', 'content', { ...analysis, path: 'src/old.ts' });
+    await cache.save();
+
+    const second = new AnalysisCache(cacheDir, 'salt');
+    await second.load();
+    second.get('src/index.ts', 'content');
+    await second.save();
+
+    const cacheFile = JSON.parse(await readFile(join(cacheDir, 'analysis.json'), 'utf-8'));
+    assert.strictEqual(Object.keys(cacheFile.entries).length, 1);
+  });
+
+  test('should ignore a corrupt cache file', async () => {
+    await mkdir(cacheDir, { recursive: true });
+    await writeFile(join(cacheDir, 'analysis.json'), '{not json');
+
+    const cache = new AnalysisCache(cacheDir, 'salt');
+    await cache.load();
+
+    assert.strictEqual(cache.get('src/index.ts', 'content'), undefined);
+  });
+
+  test('should read the parseme version from package.json', async () => {
+    const packageJson = JSON.parse(await readFile(join(process.cwd(), 'package.json'), 'utf-8'));
+
+    assert.strictEqual(await AnalysisCache.getParsemeVersion(), packageJson.version);
+  });
+});
@@ -1,3 +1,4 @@
+import { readFile } from 'fs/promises';
 import * as assert from 'node:assert';
 import { test, describe, beforeEach, afterEach, mock } from 'node:test';
 import { join } from 'path';
@@ -179,4 +180,20 @@ describe('FileCollector', () => {
       }
     });
   });
+
+  describe('getFileStats', () => {
+    test('should return size and line count for each file', async () => {
+      const stats = await collector.getFileStats(fixturesDir, ['package.json']);
+      const content = await readFile(join(fixturesDir, 'package.json'), 'utf-8');
+
+      assert.strictEqual(stats['package.json'].size, Buffer.byteLength(content));
+      assert.strictEqual(stats['package.json'].lines, content.trimEnd().split('\n').length);
+    });
+
+    test('should skip files that cannot be read', async () => {
+      const stats = await collector.getFileStats(fixturesDir, ['does-not-exist.ts']);
+
+      assert.deepStrictEqual(stats, {});
+    });
+  });
 });
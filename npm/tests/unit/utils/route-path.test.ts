@@ -0,0 +1,16 @@
+import * as assert from 'node:assert';
+import { test, describe } from 'node:test';
+
+import { joinRoutePath } from '../../../dist/utils/route-path.js';
+
+describe('joinRoutePath', () => {
+  test('should join segments with single slashes', () => {
+    assert.strictEqual(joinRoutePath('/api/', 'users', '/:id'), '/api/users/:id');
+    assert.strictEqual(joinRoutePath('api//v1', 'users/'), '/api/v1/users');
+  });
+
+  test('should return the root path for empty segments', () => {
+    assert.strictEqual(joinRoutePath(), '/');
+    assert.strictEqual(joinRoutePath('', '/'), '/');
+  });
+});
@@ -0,0 +1,72 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import * as assert from 'node:assert';
+import { test, describe, before, after } from 'node:test';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+
+import { WorkerPool } from '../../../dist/utils/worker-pool.js';
+
+describe('WorkerPool', () => {
+  const scriptDir = '/tmp/parseme-worker-pool-test';
+  const doubleScript = pathToFileURL(join(scriptDir, 'double.mjs'));
+  const crashScript = pathToFileURL(join(scriptDir, 'crash.mjs'));
+  const exitScript = pathToFileURL(join(scriptDir, 'exit.mjs'));
+
+  before(async () => {
+    await mkdir(scriptDir, { recursive: true });
+    await writeFile(
+      join(scriptDir, 'double.mjs'),
+      `import { parentPort, workerData } from 'worker_threads';
+parentPort.on('message', (n) => parentPort.postMessage(n * workerData.factor));`,
+    );
+    await writeFile(
+      join(scriptDir, 'crash.mjs'),
+      `import { parentPort } from 'worker_threads';
+parentPort.on('message', () => { throw new Error('boom'); });`,
+    );
+    await writeFile(
+      join(scriptDir, 'exit.mjs'),
+      `import { parentPort } from 'worker_threads';
+parentPort.on('message', (n) => (n === 1 ? process.exit(0) : parentPort.postMessage(n)));`,
+    );
+  });
+
+  after(async () => {
+    await rm(scriptDir, { recursive: true, force: true });
+  });
+
+  test('should run tasks across workers and resolve each with its own result', async () => {
+    const pool = new WorkerPool<number, number>(doubleScript, 2, { factor: 2 });
+
+    try {
+      const results = await Promise.all([1, 2, 3, 4, 5].map((n) => pool.run(n)));
+      assert.deepStrictEqual(results, [2, 4, 6, 8, 10]);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test('should reject pending tasks when all workers crash', async () => {
+    const pool = new WorkerPool<number, number>(crashScript, 1);
+
+    try {
+      const results = await Promise.allSettled([pool.run(1), pool.run(2)]);
+      assert.ok(results.every((result) => result.status === 'rejected'));
+      await assert.rejects(() => pool.run(3), { message: 'No workers available' });
+    } finally {
+      await pool.close();
+    }
+  });
+
+  test('should reject the task of a worker that exits without an error', async () => {
+    const pool = new WorkerPool<number, number>(exitScript, 2);
+
+    try {
+      await assert.rejects(() => pool.run(1), { message: 'Worker exited with code 0' });
+      // The remaining worker keeps handling tasks
+      assert.strictEqual(await pool.run(2), 2);
+    } finally {
+      await pool.close();
+    }
+  });
+});